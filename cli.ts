@@ -0,0 +1,411 @@
+/**
+ * pi-theme-sync CLI
+ *
+ * Detects the local appearance and writes it as an override file to one or
+ * more targets — the machines running pi. Detection reuses the extension's
+ * OS backends (macOS, Linux portal/GNOME/KDE, Windows) and its OSC 11 probe.
+ *
+ *   pi-theme-sync push   [options] <target...>   push once
+ *   pi-theme-sync watch  [options] <target...>   push on every change, with heartbeats
+ *   pi-theme-sync status [target...]             show local detection and target overrides
+ *
+ * Targets: `user@host` or `host:path` (over ssh), or a local path starting
+ * with `/`, `.` or `~`. Without a path, each machine writes its own file in
+ * the per-source override directory, so several pushers don't clobber
+ * each other.
+ */
+
+import { spawn } from "node:child_process";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+    appearanceForRgb,
+    detectOSAppearanceWithTrace,
+    formatOSBackends,
+    formatRgb,
+    loadConfig,
+    overrideFileName,
+    parseDurationMs,
+    parseOverrideAppearance,
+    queryTerminalBackground,
+    relativeLuminance,
+    signOverridePayload,
+    watchPortalColorScheme,
+    type Appearance,
+    type Config,
+    type OverrideAppearance,
+    type OverridePayload,
+} from "./index.ts";
+
+// ---------------------------------------------------------------------------
+// Types & constants
+// ---------------------------------------------------------------------------
+
+type Source = "auto" | "os" | "osc11";
+
+type Target = { kind: "local"; path: string } | { kind: "ssh"; host: string; path: string };
+
+type Options = {
+    source: Source;
+    appearance: OverrideAppearance | null;
+    intervalMs: number;
+    heartbeatMs: number | null;
+    /** Source name in the payload and the default remote file name. */
+    name: string;
+    priority: number | null;
+    /** overrideKey from the local settings; pushes are signed when set. */
+    signingKey: string | null;
+    targets: Target[];
+};
+
+type Detection = { appearance: Appearance | null; detail: string };
+
+/** Last terminal probe in a watch loop; OSC 11 is never sent more often than MIN_OSC11_INTERVAL_MS. */
+type Osc11Throttle = { probedAt: number; last: Detection | null };
+
+const REMOTE_OVERRIDE_DIR = "~/.pi/agent/theme-sync-overrides";
+const DEFAULT_INTERVAL_MS = 2000;
+const MIN_OSC11_INTERVAL_MS = 4000;
+const SSH_TIMEOUT_MS = 15_000;
+
+const USAGE = `Usage:
+  pi-theme-sync push   [--appearance dark|light|auto] [--source auto|os|osc11] [--name n] [--priority n] <target...>
+  pi-theme-sync watch  [--interval 2s] [--heartbeat 20s] [--source auto|os|osc11] [--name n] [--priority n] <target...>
+  pi-theme-sync status [--name n] [target...]
+
+Targets: user@host, host:path (ssh) or a local path starting with /, . or ~
+Default remote path: ${REMOTE_OVERRIDE_DIR}/<name>.json (name defaults to this hostname)`;
+
+// ---------------------------------------------------------------------------
+// Arguments
+// ---------------------------------------------------------------------------
+
+function expandHome(filePath: string): string {
+    return filePath === "~" || filePath.startsWith("~/") ? path.join(os.homedir(), filePath.slice(1)) : filePath;
+}
+
+function parseTarget(value: string, name: string): Target {
+    if (value.startsWith("/") || value.startsWith(".") || value.startsWith("~")) {
+        return { kind: "local", path: path.resolve(expandHome(value)) };
+    }
+    const remotePath = `${REMOTE_OVERRIDE_DIR}/${overrideFileName(name)}`;
+    const colon = value.indexOf(":");
+    if (colon < 0) return { kind: "ssh", host: value, path: remotePath };
+    return { kind: "ssh", host: value.slice(0, colon), path: value.slice(colon + 1) || remotePath };
+}
+
+function formatTarget(target: Target): string {
+    return target.kind === "local" ? target.path : `${target.host}:${target.path}`;
+}
+
+function parseOptions(args: string[], defaultHeartbeatMs: number | null): Options {
+    const options: Options = {
+        source: "auto",
+        appearance: null,
+        intervalMs: DEFAULT_INTERVAL_MS,
+        heartbeatMs: defaultHeartbeatMs,
+        name: os.hostname(),
+        priority: null,
+        signingKey: null,
+        targets: [],
+    };
+    // Resolved after the loop: the default remote path depends on --name.
+    const targetArgs: string[] = [];
+    for (let index = 0; index < args.length; index += 1) {
+        const arg = args[index]!;
+        const value = (): string => {
+            const next = args[++index];
+            if (next === undefined) throw new Error(`${arg} needs a value`);
+            return next;
+        };
+        const duration = (text: string): number => {
+            const ms = parseDurationMs(text);
+            if (ms === null) throw new Error(`${arg}: invalid duration "${text}" (e.g. 5s, 1m)`);
+            return ms;
+        };
+
+        if (arg === "--source") {
+            const source = value();
+            if (source !== "auto" && source !== "os" && source !== "osc11") throw new Error(`--source: unknown "${source}"`);
+            options.source = source;
+        } else if (arg === "--appearance") {
+            const appearance = parseOverrideAppearance(value());
+            if (!appearance) throw new Error("--appearance must be dark, light or auto");
+            options.appearance = appearance;
+        } else if (arg === "--interval") {
+            options.intervalMs = duration(value());
+        } else if (arg === "--heartbeat") {
+            const text = value();
+            options.heartbeatMs = text === "off" ? null : duration(text);
+        } else if (arg === "--name") {
+            options.name = value();
+        } else if (arg === "--priority") {
+            const text = value();
+            const priority = Number(text);
+            if (!text || !Number.isFinite(priority)) throw new Error(`--priority: invalid number "${text}"`);
+            options.priority = priority;
+        } else if (arg.startsWith("-")) {
+            throw new Error(`unknown option ${arg}`);
+        } else {
+            targetArgs.push(arg);
+        }
+    }
+    options.targets = targetArgs.map((arg) => parseTarget(arg, options.name));
+    return options;
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+async function detectViaOS(config: Config): Promise<Detection> {
+    const backends = await detectOSAppearanceWithTrace(config);
+    const answered = backends.find((result) => result.appearance);
+    return { appearance: answered?.appearance ?? null, detail: `os ${formatOSBackends(backends)}` };
+}
+
+async function detectViaOsc11(config: Config): Promise<Detection> {
+    const sample = await queryTerminalBackground();
+    if (!sample || sample === "cancelled") return { appearance: null, detail: "osc11 no reply" };
+    const luminance = relativeLuminance(sample.rgb);
+    return {
+        appearance: appearanceForRgb(config, sample.rgb),
+        detail: `osc11 ${formatRgb(sample.rgb)} luminance=${luminance.toFixed(3)} ${sample.latencyMs}ms`,
+    };
+}
+
+/** OSC 11 probe, or the previous result while the throttle window is open. */
+async function detectViaOsc11Throttled(config: Config, throttle: Osc11Throttle | null): Promise<Detection> {
+    if (!throttle) return detectViaOsc11(config);
+    if (throttle.last && Date.now() - throttle.probedAt < MIN_OSC11_INTERVAL_MS) return throttle.last;
+    throttle.probedAt = Date.now();
+    throttle.last = await detectViaOsc11(config);
+    return throttle.last;
+}
+
+async function detect(source: Source, config: Config, throttle: Osc11Throttle | null = null): Promise<Detection> {
+    if (source === "os") return detectViaOS(config);
+    if (source === "osc11") return detectViaOsc11Throttled(config, throttle);
+    // The desktop setting is cheap and doesn't write to the terminal; probe only when it's unknown.
+    const fromOS = await detectViaOS(config);
+    if (fromOS.appearance) return fromOS;
+    const fromTerminal = await detectViaOsc11Throttled(config, throttle);
+    return fromTerminal.appearance ? fromTerminal : { appearance: null, detail: `${fromOS.detail}; ${fromTerminal.detail}` };
+}
+
+// ---------------------------------------------------------------------------
+// Targets
+// ---------------------------------------------------------------------------
+
+/** Quote a remote path for sh, keeping a leading `~/` expandable. */
+function remoteShellPath(filePath: string): string {
+    const quote = (text: string): string => `'${text.replace(/'/g, `'\\''`)}'`;
+    if (filePath === "~") return '"$HOME"';
+    if (filePath.startsWith("~/")) return `"$HOME"/${quote(filePath.slice(2))}`;
+    return quote(filePath);
+}
+
+function runSsh(host: string, command: string, input: string | null): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const child = spawn("ssh", ["-o", "BatchMode=yes", "-o", "ConnectTimeout=10", host, command], {
+            stdio: ["pipe", "pipe", "pipe"],
+            timeout: SSH_TIMEOUT_MS,
+            windowsHide: true,
+        });
+        let stdout = "";
+        let stderr = "";
+        child.stdout.on("data", (chunk: Buffer) => {
+            stdout += chunk.toString();
+        });
+        child.stderr.on("data", (chunk: Buffer) => {
+            stderr += chunk.toString();
+        });
+        child.on("error", reject);
+        child.on("close", (code) => {
+            if (code === 0) resolve(stdout);
+            else reject(new Error(stderr.trim() || `ssh exited with ${code}`));
+        });
+        child.stdin.end(input ?? "");
+    });
+}
+
+/** Write via a temp file + rename so the extension's watcher never sees half a file. */
+async function writeTarget(target: Target, body: string): Promise<void> {
+    if (target.kind === "local") {
+        await mkdir(path.dirname(target.path), { recursive: true });
+        const temp = `${target.path}.${process.pid}.tmp`;
+        await writeFile(temp, body, "utf8");
+        await rename(temp, target.path);
+        return;
+    }
+    const file = remoteShellPath(target.path);
+    const temp = remoteShellPath(`${target.path}.tmp`);
+    await runSsh(target.host, `mkdir -p "$(dirname ${file})" && cat > ${temp} && mv ${temp} ${file}`, body);
+}
+
+async function readTarget(target: Target): Promise<string> {
+    if (target.kind === "local") return readFile(target.path, "utf8");
+    return runSsh(target.host, `cat ${remoteShellPath(target.path)}`, null);
+}
+
+async function pushToAll(options: Options, appearance: OverrideAppearance): Promise<boolean> {
+    const { targets } = options;
+    const payload: OverridePayload = {
+        appearance,
+        updatedAt: new Date().toISOString(),
+        source: options.name,
+    };
+    if (options.priority !== null) payload.priority = options.priority;
+    if (options.signingKey) signOverridePayload(payload, options.signingKey);
+    const body = `${JSON.stringify(payload, null, 2)}\n`;
+    const results = await Promise.allSettled(targets.map((target) => writeTarget(target, body)));
+    let ok = true;
+    results.forEach((result, index) => {
+        const name = formatTarget(targets[index]!);
+        if (result.status === "fulfilled") {
+            console.log(`pushed appearance=${appearance} to ${name}`);
+        } else {
+            ok = false;
+            const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+            console.error(`failed to push to ${name}: ${reason}`);
+        }
+    });
+    return ok;
+}
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+async function push(options: Options, config: Config): Promise<number> {
+    let appearance = options.appearance;
+    if (!appearance) {
+        const detection = await detect(options.source, config);
+        if (!detection.appearance) {
+            console.error(`could not detect appearance (${detection.detail})`);
+            return 1;
+        }
+        appearance = detection.appearance;
+    }
+    return (await pushToAll(options, appearance)) ? 0 : 1;
+}
+
+async function watch(options: Options, config: Config): Promise<number> {
+    const intervalMs = options.source === "osc11" ? Math.max(options.intervalMs, MIN_OSC11_INTERVAL_MS) : options.intervalMs;
+    let lastPushed: Appearance | null = null;
+    let lastPushAt = 0;
+    let failed = false;
+    let checking = false;
+    // The interval above only covers --source osc11; auto falls back to OSC 11 on any tick, portal wakeups included.
+    const osc11Throttle: Osc11Throttle = { probedAt: 0, last: null };
+
+    const check = async (): Promise<void> => {
+        if (checking) return;
+        checking = true;
+        try {
+            const detection = await detect(options.source, config, osc11Throttle);
+            if (!detection.appearance) return;
+            const changed = detection.appearance !== lastPushed;
+            const heartbeatDue = options.heartbeatMs !== null && Date.now() - lastPushAt >= options.heartbeatMs;
+            // Retry every interval after a failed push, not just on the next change.
+            if (!changed && !heartbeatDue && !failed) return;
+            failed = !(await pushToAll(options, detection.appearance));
+            lastPushed = detection.appearance;
+            lastPushAt = Date.now();
+        } finally {
+            checking = false;
+        }
+    };
+
+    const portalStatus: { state: "off" | "active" | "unavailable" } = { state: "off" };
+    const stopPortal = options.source === "osc11" ? () => {} : watchPortalColorScheme(() => void check(), portalStatus);
+    const timer = setInterval(() => void check(), intervalMs);
+    await check();
+
+    const heartbeat = options.heartbeatMs === null ? "off" : `${options.heartbeatMs}ms`;
+    console.log(`watching (source=${options.source}, interval=${intervalMs}ms, heartbeat=${heartbeat}); Ctrl-C to stop`);
+    await new Promise<void>((resolve) => {
+        const stop = () => resolve();
+        process.once("SIGINT", stop);
+        process.once("SIGTERM", stop);
+    });
+    clearInterval(timer);
+    stopPortal();
+    return 0;
+}
+
+function describeFreshness(payload: Partial<OverridePayload>, maxAgeMs: number): string {
+    if (payload.sticky) return "sticky";
+    if (typeof payload.expiresAt === "string") {
+        const left = Date.parse(payload.expiresAt) - Date.now();
+        return left > 0 ? `expires in ${left}ms` : "expired";
+    }
+    const updatedAt = typeof payload.updatedAt === "string" ? Date.parse(payload.updatedAt) : Number.NaN;
+    if (!Number.isFinite(updatedAt)) return "no timestamp";
+    const age = Date.now() - updatedAt;
+    return maxAgeMs > 0 && age > maxAgeMs ? `stale, ${age}ms old` : `${age}ms old`;
+}
+
+async function status(options: Options, config: Config): Promise<number> {
+    const fromOS = await detectViaOS(config);
+    console.log(`os: ${fromOS.appearance ?? "unknown"} (${fromOS.detail})`);
+    const fromTerminal = await detectViaOsc11(config);
+    console.log(`terminal: ${fromTerminal.appearance ?? "unknown"} (${fromTerminal.detail})`);
+
+    for (const target of options.targets) {
+        const name = formatTarget(target);
+        try {
+            const payload = JSON.parse(await readTarget(target)) as Partial<OverridePayload>;
+            const freshness = describeFreshness(payload, config.overrideMaxAgeMs);
+            const priority = typeof payload.priority === "number" ? ` priority=${payload.priority}` : "";
+            const signed = payload.signature ? " signed" : "";
+            console.log(
+                `${name}: appearance=${payload.appearance ?? "?"} source=${payload.source ?? "?"}${priority}${signed} (${freshness})`,
+            );
+        } catch (error) {
+            console.log(`${name}: unreadable (${error instanceof Error ? error.message : String(error)})`);
+        }
+    }
+    return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+    const [command, ...rest] = argv;
+    if (!command || command === "-h" || command === "--help" || command === "help") {
+        console.log(USAGE);
+        return command ? 0 : 1;
+    }
+
+    // Local settings give the luminance threshold and bands, and how long pushes stay fresh.
+    const { config } = await loadConfig(null);
+    let options: Options;
+    try {
+        // Three heartbeats per freshness window; none needed when overrides never go stale.
+        const heartbeatMs = config.overrideMaxAgeMs > 0 ? Math.max(1000, Math.floor(config.overrideMaxAgeMs / 3)) : null;
+        options = parseOptions(rest, heartbeatMs);
+        options.signingKey = config.overrideKey;
+    } catch (error) {
+        console.error(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+        return 2;
+    }
+
+    if (command === "status") return status(options, config);
+    if (command !== "push" && command !== "watch") {
+        console.error(`unknown command "${command}"\n\n${USAGE}`);
+        return 2;
+    }
+    if (options.targets.length === 0) {
+        console.error(`${command}: at least one target is required\n\n${USAGE}`);
+        return 2;
+    }
+    return command === "push" ? push(options, config) : watch(options, config);
+}
+
+main(process.argv.slice(2)).then(
+    (code) => process.exit(code),
+    (error: unknown) => {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+    },
+);
@@ -7,20 +7,35 @@
  *   1. Override file  (~/.pi/agent/theme-sync-override.json)
  *      – If present & fresh, use its "dark" / "light" value directly.
  *      – If value is "auto", fall through.
- *   2. Terminal query  (OSC 11 background-color)
+ *      – The file is watched, so pushes apply immediately.
+ *      – Optionally, pushes can arrive over a local socket instead.
+ *   2. Terminal color-scheme reports (DEC private mode 2031)
+ *      – Terminals that support it push "dark"/"light" when their theme
+ *        flips, so no periodic probing is needed.
+ *   3. Environment hints (LC_PI_THEME_*, COLORFGBG) for the first frame
+ *   4. Terminal query  (OSC 11 background-color, fallback for step 2)
  *      – Works transparently over SSH because escape sequences travel
  *        through the SSH tunnel back to the local terminal (Ghostty, etc.).
- *      – A helper subprocess opens /dev/tty to avoid interfering with
- *        pi's own stdin/stdout.
- *   3. OS-level detection (optional fallback, disabled by default)
+ *      – A long-lived helper subprocess opens /dev/tty to avoid
+ *        interfering with pi's own stdin/stdout.
+ *   5. OS-level detection (optional fallback, disabled by default)
+ *
+ * The order is configurable via `strategies` in theme-sync-config.json,
+ * which can also add a user `command` strategy. A project's
+ * `.pi/theme-sync.json` overrides the global settings inside that project.
  */
 
-import { execFile, spawn } from "node:child_process";
-import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { execFile, spawn, type ChildProcess } from "node:child_process";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { watch, type FSWatcher } from "node:fs";
+import { appendFile, link, mkdir, readdir, readFile, readlink, rename, rm, stat, writeFile } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import { connect } from "node:net";
 import os from "node:os";
 import path from "node:path";
 import { promisify } from "node:util";
 import type { ExtensionAPI, ExtensionCommandContext, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import type { SelectList, SelectListTheme } from "@mariozechner/pi-tui";
 
 const execFileAsync = promisify(execFile);
 
@@ -37,33 +52,189 @@ type Config = {
     pollMs: number;
     overrideFile: string;
     overrideMaxAgeMs: number;
+    /** Shared HMAC secret; when set, unsigned or badly signed overrides are rejected. */
+    overrideKey: string | null;
+    /** WCAG relative luminance (0–1) below which a background counts as dark. */
+    luminanceThreshold: number;
+    /** Width of the no-switch band centred on the threshold. */
+    luminanceHysteresis: number;
+    /** Ordered luminance bands; `null` means the two bands implied by darkTheme/lightTheme. */
+    bands: ThemeBand[] | null;
+    /** Synthesize a theme from the terminal palette instead of using the mapped names. */
+    generateTheme: boolean;
+    /** Conditional theme choices; the first match wins over bands and the dark/light mapping. */
+    rules: ThemeRule[];
+    /** Force the remote-session verdict instead of detecting it. */
+    remoteSession: RemoteSetting;
+    /** User profiles by name; merged over the built-in ones (`default` tunes the fallback). */
+    terminalProfiles: Record<string, Partial<TerminalProfile>>;
+    /** Detection pipeline, in priority order. */
+    strategies: StrategySpec[];
+};
+
+/** One luminance band: backgrounds below `below` (exclusive) map to `theme`. */
+type ThemeBand = {
+    /** Upper luminance bound; `null` on the last band (everything brighter). */
+    below: number | null;
+    theme: string;
+    /**
+     * Dark/light reported when a measured color lands in this band (rules,
+     * history, palette theme). Inferred from the band's lower bound when
+     * omitted. Sources that only know dark/light don't pick a band; they use
+     * darkTheme / lightTheme.
+     */
+    appearance: Appearance;
+};
+
+/** One conditional theme choice; `null` conditions match anything. */
+type ThemeRule = {
+    /** Name shown in /system-theme-debug; defaults to "rule <n>". */
+    label: string;
+    /** Hostname pattern (`*` wildcards, case-insensitive). */
+    host: string | null;
+    remote: boolean | null;
+    termProgram: string | null;
+    term: string | null;
+    tmux: boolean | null;
+    appearance: Appearance | null;
+    theme: string;
+};
+
+type StrategyId = "override" | "color-scheme" | "env" | "osc11" | "os" | "command" | "schedule" | "osc11-cache";
+
+/** One entry of the detection pipeline (config.strategies). */
+type StrategySpec = {
+    id: StrategyId;
+    /** Name shown in traces; defaults to the id (useful to tell several command strategies apart). */
+    label: string;
+    enabled: boolean;
+    /** Time budget for this step; `null` leaves it to the strategy's own limits. */
+    timeoutMs: number | null;
+    /** `command` strategy: executable to run (no shell) and its arguments. */
+    command?: string;
+    args?: string[];
+    /** `schedule` strategy: when it's light. */
+    schedule?: Schedule;
+};
+
+/** Fixed local times (minutes after midnight) or sunrise/sunset at a location. */
+type Schedule =
+    | { kind: "fixed"; lightFrom: number; lightUntil: number }
+    | { kind: "solar"; latitude: number; longitude: number };
+
+type RemoteSetting = "auto" | "remote" | "local";
+
+/** Probing quirks of one terminal; see TERMINAL_PROFILES. */
+type TerminalProfile = {
+    /** Terminal names (from XTVERSION, TERM_PROGRAM or TERM, lowercase) besides the profile's own name. */
+    match: string[];
+    /** How long the helper waits for an OSC 11 reply. */
+    replyTimeoutMs: number;
+    /** Minimum gap between OSC 11 probes (PI_THEME_SYNC_OSC11_MIN_INTERVAL_MS still wins). */
+    minIntervalMs: number;
+    /** Unanswered probes in a row before OSC 11 cools down. */
+    disableAfterFailures: number;
+    /** How queries are terminated: BEL or ST (`ESC \`). */
+    terminator: "bel" | "st";
+    /** Worth asking for mode 2031; false skips the DECRQM handshake. */
+    colorScheme: boolean;
+    /** Safe to probe in the background while pi is idle. */
+    backgroundProbe: boolean;
+};
+
+type ConfigSource = "default" | "global" | "project" | "env";
+
+type LoadedConfig = {
+    /** Effective settings: defaults < global file < project file < env. */
+    config: Config;
+    /** Defaults + global file only; what /system-theme edits and saves. */
+    global: Config;
+    sources: Record<keyof Config, ConfigSource>;
+    /** Nearest `.pi/theme-sync.json` above the session cwd, if any. */
+    projectFile: string | null;
+    projectError: string | null;
+    /** Configured theme names pi doesn't have, e.g. `darkTheme "drak" (global)`; empty when not checked. */
+    unknownThemes: string[];
 };
 
 type OverridePayload = {
     appearance: OverrideAppearance;
+    /** Exact theme to apply instead of the dark/light mapping (needs dark or light). */
+    theme?: string;
     updatedAt?: string;
+    /** Who pushed it; each source keeps its own entry in the override store. */
     source?: string;
+    /** End of the lease; replaces the overrideMaxAgeMs freshness window. */
+    expiresAt?: string;
+    /** Never goes stale; holds until the source pushes again (or pushes "auto"). */
+    sticky?: boolean;
+    /** Higher wins when several sources have live overrides (default 0). */
+    priority?: number;
+    /** Hex HMAC-SHA256 of the other fields under overrideKey; required once a key is configured. */
+    signature?: string;
 };
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
+const STRATEGY_IDS: readonly StrategyId[] = [
+    "override",
+    "color-scheme",
+    "env",
+    "osc11",
+    "os",
+    "command",
+    "schedule",
+    "osc11-cache",
+];
+
+// Env hints rank below live sources: they theme the first frame (session-hints
+// tick) but must not outvote a probe or the OS afterwards.
+const DEFAULT_STRATEGIES: StrategySpec[] = (["override", "color-scheme", "osc11", "os", "env", "osc11-cache"] as const).map(
+    (id) => ({ id, label: id, enabled: true, timeoutMs: null }),
+);
+
 const DEFAULT_CONFIG: Config = {
     darkTheme: "dark",
     lightTheme: "light",
     pollMs: 4000,
     overrideFile: path.join(os.homedir(), ".pi", "agent", "theme-sync-override.json"),
     overrideMaxAgeMs: 60_000,
+    overrideKey: null,
+    luminanceThreshold: 0.18,
+    luminanceHysteresis: 0.04,
+    bands: null,
+    generateTheme: false,
+    rules: [],
+    remoteSession: "auto",
+    terminalProfiles: {},
+    strategies: DEFAULT_STRATEGIES,
 };
 
 const GLOBAL_CONFIG_PATH = path.join(os.homedir(), ".pi", "agent", "theme-sync-config.json");
+const PROJECT_CONFIG_PATH = path.join(".pi", "theme-sync.json");
+const DEFAULT_LISTEN_SOCKET = path.join(os.homedir(), ".pi", "agent", "theme-sync.sock");
 const DETECTION_TIMEOUT_MS = 1200;
 const MIN_POLL_MS = 1000;
-const OSC11_QUERY_TIMEOUT_MS = 3200;
+const OSC11_REPLY_TIMEOUT_MS = 2500;
+/** Extra time the helper gets beyond its reply deadline (node startup for one-shot probes). */
+const OSC11_WATCHDOG_SLACK_MS = 1000;
 const OSC11_MIN_INTERVAL_MS = 4_000;
 const OSC11_DISABLE_AFTER_FAILURES = 3;
 const OSC11_DISABLE_COOLDOWN_MS = 60_000;
+const OVERRIDE_WATCH_DEBOUNCE_MS = 150;
+const LISTENER_MAX_BODY_BYTES = 4096;
+const COLOR_SCHEME_ACK_TIMEOUT_MS = 1500;
+const POLL_BOOST_WINDOW_MS = 30_000;
+const POLL_BACKOFF_MAX_MS = 60_000;
+const HISTORY_SIZE = 200;
+const DEFAULT_HISTORY_LOG = path.join(os.homedir(), ".pi", "agent", "theme-sync-history.jsonl");
+const HISTORY_LOG_MAX_BYTES = 1024 * 1024;
+const COORDINATION_DIR = path.join(os.homedir(), ".pi", "agent", "theme-sync-probe");
+const LEADER_HEARTBEAT_MS = 10_000;
+const LEADER_STALE_MS = 30_000;
+const SHARED_SAMPLE_MAX_AGE_MS = 5 * 60_000;
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -92,6 +263,188 @@ function toPollMs(value: unknown, fallback: number): number {
     return Math.max(MIN_POLL_MS, Math.round(value));
 }
 
+function toUnitInterval(value: unknown, fallback: number): number {
+    if (typeof value !== "number" || !Number.isFinite(value)) return fallback;
+    return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Parse a `bands` array from the config file. Bounds must be strictly
+ * increasing; the last band may omit `below`. Anything malformed disables
+ * bands entirely rather than guessing.
+ */
+function toBands(value: unknown, threshold: number): ThemeBand[] | null {
+    if (!Array.isArray(value) || value.length === 0) return null;
+    const bands: ThemeBand[] = [];
+    let lower = 0;
+    for (const [index, entry] of value.entries()) {
+        if (!isObject(entry)) return null;
+        const theme = toThemeName(entry.theme, "");
+        if (!theme) return null;
+        const isLast = index === value.length - 1;
+        const below = typeof entry.below === "number" && Number.isFinite(entry.below) ? entry.below : null;
+        if (below === null && !isLast) return null;
+        if (below !== null && below <= lower) return null;
+        const appearance =
+            entry.appearance === "dark" || entry.appearance === "light"
+                ? entry.appearance
+                : lower < threshold
+                  ? "dark"
+                  : "light";
+        bands.push({ below: isLast && below !== null && below >= 1 ? null : below, theme, appearance });
+        if (below !== null) lower = below;
+    }
+    return bands;
+}
+
+/**
+ * Parse `strategies` from the config file. Entries are either an id string
+ * or an object `{ id, enabled?, timeoutMs?, label?, command?, args?, ... }`;
+ * unknown ids are dropped. An empty or missing list means the default order.
+ */
+function toStrategies(value: unknown): StrategySpec[] {
+    if (!Array.isArray(value)) return DEFAULT_STRATEGIES;
+    const specs: StrategySpec[] = [];
+    for (const entry of value) {
+        const raw = typeof entry === "string" ? { id: entry } : entry;
+        if (!isObject(raw)) continue;
+        const id = STRATEGY_IDS.find((candidate) => candidate === raw.id);
+        if (!id) continue;
+        const spec: StrategySpec = {
+            id,
+            label: toThemeName(raw.label, id),
+            enabled: raw.enabled !== false,
+            timeoutMs: typeof raw.timeoutMs === "number" && raw.timeoutMs > 0 ? Math.round(raw.timeoutMs) : null,
+        };
+        if (typeof raw.command === "string" && raw.command.trim().length > 0) spec.command = raw.command.trim();
+        if (Array.isArray(raw.args)) spec.args = raw.args.filter((arg): arg is string => typeof arg === "string");
+        const schedule = toSchedule(raw);
+        if (schedule) spec.schedule = schedule;
+        specs.push(spec);
+    }
+    return specs.length > 0 ? specs : DEFAULT_STRATEGIES;
+}
+
+/**
+ * Parse `rules` from the config file. Each entry needs a `theme`; the match
+ * keys (`host`, `remote`, `termProgram`, `term`, `tmux`, `appearance`) are
+ * optional. Malformed entries are dropped.
+ */
+function toRules(value: unknown): ThemeRule[] {
+    if (!Array.isArray(value)) return [];
+    const rules: ThemeRule[] = [];
+    for (const [index, entry] of value.entries()) {
+        if (!isObject(entry)) continue;
+        const theme = toThemeName(entry.theme, "");
+        if (!theme) continue;
+        const text = (raw: unknown): string | null => (typeof raw === "string" && raw.trim() ? raw.trim() : null);
+        const flag = (raw: unknown): boolean | null => (typeof raw === "boolean" ? raw : null);
+        rules.push({
+            label: toThemeName(entry.label, `rule ${index + 1}`),
+            host: text(entry.host),
+            remote: flag(entry.remote),
+            termProgram: text(entry.termProgram),
+            term: text(entry.term),
+            tmux: flag(entry.tmux),
+            appearance: entry.appearance === "dark" || entry.appearance === "light" ? entry.appearance : null,
+            theme,
+        });
+    }
+    return rules;
+}
+
+/** `remoteSession` / PI_THEME_SYNC_REMOTE: "remote", "local" or "auto" (booleans accepted). */
+function toRemoteSetting(value: unknown): RemoteSetting | null {
+    const raw = String(value ?? "").trim().toLowerCase();
+    if (raw === "auto") return "auto";
+    if (raw === "remote" || raw === "1" || raw === "true" || raw === "on") return "remote";
+    if (raw === "local" || raw === "0" || raw === "false" || raw === "off") return "local";
+    return null;
+}
+
+/**
+ * `terminalProfiles`: `{ "<name>": { replyTimeoutMs?, minIntervalMs?, ... } }`.
+ * Invalid fields are dropped, so an entry only overrides what it sets correctly.
+ */
+function toTerminalProfiles(value: unknown): Record<string, Partial<TerminalProfile>> {
+    if (!isObject(value)) return {};
+    const profiles: Record<string, Partial<TerminalProfile>> = {};
+    const ms = (raw: unknown, min: number): number | undefined =>
+        typeof raw === "number" && Number.isFinite(raw) ? Math.max(min, Math.round(raw)) : undefined;
+    for (const [name, entry] of Object.entries(value)) {
+        if (!isObject(entry) || !name.trim()) continue;
+        const profile: Partial<TerminalProfile> = {};
+        const match = typeof entry.match === "string" ? [entry.match] : entry.match;
+        if (Array.isArray(match)) {
+            profile.match = match.filter((item): item is string => typeof item === "string").map((item) => item.trim().toLowerCase());
+        }
+        profile.replyTimeoutMs = ms(entry.replyTimeoutMs, 100);
+        profile.minIntervalMs = ms(entry.minIntervalMs, MIN_POLL_MS);
+        profile.disableAfterFailures = ms(entry.disableAfterFailures, 1);
+        if (entry.terminator === "bel" || entry.terminator === "st") profile.terminator = entry.terminator;
+        if (typeof entry.colorScheme === "boolean") profile.colorScheme = entry.colorScheme;
+        if (typeof entry.backgroundProbe === "boolean") profile.backgroundProbe = entry.backgroundProbe;
+        profiles[name.trim().toLowerCase()] = Object.fromEntries(
+            Object.entries(profile).filter(([, field]) => field !== undefined),
+        ) as Partial<TerminalProfile>;
+    }
+    return profiles;
+}
+
+/** "HH:MM" → minutes after midnight. */
+function toMinutesOfDay(value: unknown): number | null {
+    if (typeof value !== "string") return null;
+    const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+    if (!match) return null;
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+/** `lightFrom`/`lightUntil` ("HH:MM", local) or `latitude`/`longitude` on a schedule strategy entry. */
+function toSchedule(raw: Record<string, unknown>): Schedule | null {
+    const lightFrom = toMinutesOfDay(raw.lightFrom);
+    const lightUntil = toMinutesOfDay(raw.lightUntil);
+    if (lightFrom !== null && lightUntil !== null && lightFrom !== lightUntil) {
+        return { kind: "fixed", lightFrom, lightUntil };
+    }
+    const { latitude, longitude } = raw;
+    if (
+        typeof latitude === "number" &&
+        typeof longitude === "number" &&
+        Math.abs(latitude) <= 90 &&
+        Math.abs(longitude) <= 180
+    ) {
+        return { kind: "solar", latitude, longitude };
+    }
+    return null;
+}
+
+/** Minutes after midnight → "HH:MM", the form toMinutesOfDay reads. */
+function formatMinutesOfDay(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/** Strategies in the config-file shape toStrategies reads back: defaults left out, schedules flattened. */
+function serializeStrategies(specs: StrategySpec[]): (StrategyId | Record<string, unknown>)[] {
+    return specs.map((spec) => {
+        const entry: Record<string, unknown> = { id: spec.id };
+        if (spec.label !== spec.id) entry.label = spec.label;
+        if (!spec.enabled) entry.enabled = false;
+        if (spec.timeoutMs !== null) entry.timeoutMs = spec.timeoutMs;
+        if (spec.command) entry.command = spec.command;
+        if (spec.args) entry.args = spec.args;
+        if (spec.schedule?.kind === "fixed") {
+            entry.lightFrom = formatMinutesOfDay(spec.schedule.lightFrom);
+            entry.lightUntil = formatMinutesOfDay(spec.schedule.lightUntil);
+        } else if (spec.schedule?.kind === "solar") {
+            entry.latitude = spec.schedule.latitude;
+            entry.longitude = spec.schedule.longitude;
+        }
+        return Object.keys(entry).length === 1 ? spec.id : entry;
+    });
+}
+
 function extractStderr(error: unknown): string {
     if (!error || typeof error !== "object") return "";
     const stderr = (error as { stderr?: unknown }).stderr;
@@ -109,45 +462,173 @@ function canManageThemes(ctx: ExtensionContext): boolean {
 
 
 // ---------------------------------------------------------------------------
-// Config I/O  (reads ~/.pi/agent/theme-sync-config.json written by /system-theme)
+// Config I/O  (reads ~/.pi/agent/theme-sync-config.json written by /system-theme,
+// then the nearest project .pi/theme-sync.json above the session cwd)
 // ---------------------------------------------------------------------------
 
-async function loadConfig(): Promise<Config> {
+/** Apply the settings present in one config file on top of `config`. */
+function applyConfigLayer(
+    config: Config,
+    parsed: Record<string, unknown>,
+    sources: Record<keyof Config, ConfigSource>,
+    source: ConfigSource,
+): void {
+    const set = <K extends keyof Config>(key: K, value: Config[K]): void => {
+        config[key] = value;
+        sources[key] = source;
+    };
+    if (parsed.darkTheme !== undefined) set("darkTheme", toThemeName(parsed.darkTheme, config.darkTheme));
+    if (parsed.lightTheme !== undefined) set("lightTheme", toThemeName(parsed.lightTheme, config.lightTheme));
+    if (parsed.pollMs !== undefined) set("pollMs", toPollMs(parsed.pollMs, config.pollMs));
+    if (parsed.luminanceThreshold !== undefined) {
+        set("luminanceThreshold", toUnitInterval(parsed.luminanceThreshold, config.luminanceThreshold));
+    }
+    if (parsed.luminanceHysteresis !== undefined) {
+        set("luminanceHysteresis", toUnitInterval(parsed.luminanceHysteresis, config.luminanceHysteresis));
+    }
+    if (parsed.bands !== undefined) set("bands", toBands(parsed.bands, config.luminanceThreshold));
+    if (parsed.generateTheme !== undefined) set("generateTheme", parsed.generateTheme === true);
+    // A project file could otherwise switch verification off by clearing the key.
+    if (parsed.overrideKey !== undefined && source !== "project") {
+        set("overrideKey", typeof parsed.overrideKey === "string" && parsed.overrideKey ? parsed.overrideKey : null);
+    }
+    if (parsed.rules !== undefined) set("rules", toRules(parsed.rules));
+    if (parsed.remoteSession !== undefined) set("remoteSession", toRemoteSetting(parsed.remoteSession) ?? "auto");
+    if (parsed.terminalProfiles !== undefined) set("terminalProfiles", toTerminalProfiles(parsed.terminalProfiles));
+    if (parsed.strategies !== undefined) {
+        const strategies = toStrategies(parsed.strategies);
+        // A cloned repository must not be able to run programs on session start.
+        const allowed = source === "project" ? strategies.filter((spec) => spec.id !== "command") : strategies;
+        set("strategies", allowed.length > 0 ? allowed : DEFAULT_STRATEGIES);
+    }
+}
+
+async function findProjectConfig(cwd: string): Promise<string | null> {
+    let dir = path.resolve(cwd);
+    while (true) {
+        const candidate = path.join(dir, PROJECT_CONFIG_PATH);
+        try {
+            await readFile(candidate, "utf8");
+            return candidate;
+        } catch {
+            // not here → keep walking up
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) return null;
+        dir = parent;
+    }
+}
+
+/** Theme names in the effective config that aren't in `available`, labelled with where they were set. */
+function findUnknownThemes(config: Config, sources: Record<keyof Config, ConfigSource>, available: string[]): string[] {
+    const known = new Set([...available, GENERATED_THEME_NAME]);
+    const named: [string, keyof Config, string][] = [
+        ["darkTheme", "darkTheme", config.darkTheme],
+        ["lightTheme", "lightTheme", config.lightTheme],
+        ...(config.bands ?? []).map((band, index): [string, keyof Config, string] => [`bands[${index}]`, "bands", band.theme]),
+        ...config.rules.map((rule): [string, keyof Config, string] => [`rules "${rule.label}"`, "rules", rule.theme]),
+    ];
+    return named.filter(([, , theme]) => !known.has(theme)).map(([label, key, theme]) => `${label} "${theme}" (${sources[key]})`);
+}
+
+/** `availableThemes` (pi's installed theme names) enables the unknownThemes check. */
+async function loadConfig(cwd: string | null, availableThemes: string[] | null = null): Promise<LoadedConfig> {
     const config = { ...DEFAULT_CONFIG };
+    const sources = Object.fromEntries(Object.keys(DEFAULT_CONFIG).map((key) => [key, "default"])) as Record<
+        keyof Config,
+        ConfigSource
+    >;
 
     // Read theme mapping from shared config (same file as pi-system-theme)
     try {
         const raw = await readFile(GLOBAL_CONFIG_PATH, "utf8");
         const parsed = JSON.parse(raw) as unknown;
-        if (isObject(parsed)) {
-            config.darkTheme = toThemeName(parsed.darkTheme, config.darkTheme);
-            config.lightTheme = toThemeName(parsed.lightTheme, config.lightTheme);
-            config.pollMs = toPollMs(parsed.pollMs, config.pollMs);
-        }
+        if (isObject(parsed)) applyConfigLayer(config, parsed, sources, "global");
     } catch {
         // missing or corrupt → use defaults
     }
+    const global = { ...config };
+
+    const projectFile = cwd ? await findProjectConfig(cwd) : null;
+    let projectError: string | null = null;
+    if (projectFile) {
+        try {
+            const parsed = JSON.parse(await readFile(projectFile, "utf8")) as unknown;
+            if (isObject(parsed)) applyConfigLayer(config, parsed, sources, "project");
+            else projectError = "not a JSON object";
+        } catch (error) {
+            projectError = error instanceof Error ? error.message : String(error);
+        }
+    }
 
     // Env overrides for bridge-specific settings
     const envFile = process.env.PI_THEME_SYNC_OVERRIDE_FILE;
     if (typeof envFile === "string" && envFile.trim().length > 0) {
         config.overrideFile = envFile.trim();
+        sources.overrideFile = "env";
     }
 
     const envMaxAge = process.env.PI_THEME_SYNC_OVERRIDE_MAX_AGE_MS;
     if (envMaxAge) {
         const v = Number.parseInt(envMaxAge, 10);
-        if (Number.isFinite(v)) config.overrideMaxAgeMs = Math.max(0, v);
+        if (Number.isFinite(v)) {
+            config.overrideMaxAgeMs = Math.max(0, v);
+            sources.overrideMaxAgeMs = "env";
+        }
+    }
+    const envRemote = toRemoteSetting(process.env.PI_THEME_SYNC_REMOTE);
+    if (envRemote) {
+        config.remoteSession = envRemote;
+        sources.remoteSession = "env";
+    }
+
+    const envKey = process.env.PI_THEME_SYNC_OVERRIDE_KEY;
+    if (typeof envKey === "string" && envKey.length > 0) {
+        // Not copied into `global`: saving settings must not write the secret to disk.
+        config.overrideKey = envKey;
+        sources.overrideKey = "env";
     }
+    global.overrideFile = config.overrideFile;
+    global.overrideMaxAgeMs = config.overrideMaxAgeMs;
+
+    const unknownThemes = availableThemes ? findUnknownThemes(config, sources, availableThemes) : [];
+    return { config, global, sources, projectFile, projectError, unknownThemes };
+}
+
+function formatConfigValue(config: Config, key: keyof Config): string {
+    if (key === "bands") return config.bands ? config.bands.map((band) => band.theme).join("/") : "dark/light";
+    if (key === "strategies") return config.strategies.map((spec) => spec.label).join("→");
+    if (key === "rules") return config.rules.length > 0 ? config.rules.map((rule) => rule.label).join("/") : "none";
+    if (key === "overrideKey") return config.overrideKey ? "set" : "none";
+    if (key === "terminalProfiles") return Object.keys(config.terminalProfiles).join("/") || "none";
+    return String(config[key]);
+}
 
-    return config;
+/** `key:value(source)` for every setting that isn't a default. */
+function formatConfigSources(loaded: LoadedConfig): string {
+    const keys = (Object.keys(loaded.sources) as (keyof Config)[]).filter((key) => loaded.sources[key] !== "default");
+    if (keys.length === 0) return "defaults";
+    return keys.map((key) => `${key}:${formatConfigValue(loaded.config, key)}(${loaded.sources[key]})`).join(", ");
 }
 
 async function saveConfig(config: Config): Promise<void> {
-    const overrides: Partial<Config> = {};
+    const overrides: Partial<Record<keyof Config, unknown>> = {};
     if (config.darkTheme !== DEFAULT_CONFIG.darkTheme) overrides.darkTheme = config.darkTheme;
     if (config.lightTheme !== DEFAULT_CONFIG.lightTheme) overrides.lightTheme = config.lightTheme;
     if (config.pollMs !== DEFAULT_CONFIG.pollMs) overrides.pollMs = config.pollMs;
+    if (config.luminanceThreshold !== DEFAULT_CONFIG.luminanceThreshold) {
+        overrides.luminanceThreshold = config.luminanceThreshold;
+    }
+    if (config.luminanceHysteresis !== DEFAULT_CONFIG.luminanceHysteresis) {
+        overrides.luminanceHysteresis = config.luminanceHysteresis;
+    }
+    if (config.bands) overrides.bands = config.bands;
+    if (config.generateTheme) overrides.generateTheme = true;
+    if (config.rules.length > 0) overrides.rules = config.rules;
+    if (config.overrideKey) overrides.overrideKey = config.overrideKey;
+    if (config.remoteSession !== "auto") overrides.remoteSession = config.remoteSession;
+    if (Object.keys(config.terminalProfiles).length > 0) overrides.terminalProfiles = config.terminalProfiles;
+    if (config.strategies !== DEFAULT_STRATEGIES) overrides.strategies = serializeStrategies(config.strategies);
 
     if (Object.keys(overrides).length === 0) {
         const { rm } = await import("node:fs/promises");
@@ -163,394 +644,3323 @@ async function saveConfig(config: Config): Promise<void> {
 // Strategy 1: Override file
 // ---------------------------------------------------------------------------
 
-async function readOverrideFile(filePath: string, maxAgeMs: number): Promise<Appearance | "auto" | null> {
-    try {
-        const raw = await readFile(filePath, "utf8");
-        const parsed = JSON.parse(raw) as unknown;
-        if (!isObject(parsed)) return null;
+/** One source's current override, from a file or the push listener. */
+type OverrideEntry = {
+    payload: OverridePayload;
+    origin: "listener" | "file";
+    /** payload.source, else the file name; the store keeps one entry per source. */
+    source: string;
+    /** Epoch ms after which the entry stops counting; null = until replaced. */
+    expiresAt: number | null;
+};
 
-        const appearance = parseOverrideAppearance(parsed.appearance);
-        if (!appearance) return null;
+/** Per-source override files live next to the single override file. */
+function getOverrideDir(overrideFile: string): string {
+    return path.join(path.dirname(overrideFile), "theme-sync-overrides");
+}
 
-        // Check freshness
-        if (maxAgeMs > 0) {
-            const updatedAt = typeof parsed.updatedAt === "string" ? parsed.updatedAt : undefined;
-            if (!updatedAt) return null;
-            const time = Date.parse(updatedAt);
-            if (!Number.isFinite(time) || Date.now() - time > maxAgeMs) return null;
-        }
+function overrideFileName(source: string): string {
+    return `${source.replace(/[^A-Za-z0-9._-]/g, "_") || "unnamed"}.json`;
+}
 
-        return appearance;
+function parseOverridePayload(value: unknown): OverridePayload | null {
+    if (!isObject(value)) return null;
+    const appearance = parseOverrideAppearance(value.appearance);
+    if (!appearance) return null;
+    const payload: OverridePayload = { appearance };
+    if (typeof value.theme === "string" && value.theme.trim()) {
+        // A theme without a side would leave rules and history guessing.
+        if (appearance === "auto") return null;
+        payload.theme = value.theme.trim();
+    }
+    if (typeof value.updatedAt === "string") payload.updatedAt = value.updatedAt;
+    if (typeof value.source === "string" && value.source.trim()) payload.source = value.source.trim();
+    if (typeof value.expiresAt === "string") {
+        if (!Number.isFinite(Date.parse(value.expiresAt))) return null;
+        payload.expiresAt = value.expiresAt;
+    }
+    if (value.sticky === true) payload.sticky = true;
+    if (typeof value.priority === "number" && Number.isFinite(value.priority)) payload.priority = value.priority;
+    if (typeof value.signature === "string") payload.signature = value.signature;
+    return payload;
+}
+
+function overrideUpdatedAt(entry: OverrideEntry): number {
+    return Date.parse(entry.payload.updatedAt ?? "") || 0;
+}
+
+function toOverrideEntry(
+    payload: OverridePayload,
+    origin: OverrideEntry["origin"],
+    fallbackSource: string,
+    maxAgeMs: number,
+): OverrideEntry {
+    let expiresAt: number | null = null;
+    if (payload.sticky) {
+        expiresAt = null;
+    } else if (payload.expiresAt) {
+        expiresAt = Date.parse(payload.expiresAt);
+    } else if (maxAgeMs > 0) {
+        // Files and pushes both need a heartbeat; a sender that goes quiet shouldn't pin the theme.
+        const updatedAt = Date.parse(payload.updatedAt ?? "");
+        expiresAt = Number.isFinite(updatedAt) ? updatedAt + maxAgeMs : 0;
+    }
+    return { payload, origin, source: payload.source ?? fallbackSource, expiresAt };
+}
+
+async function readOverrideFile(filePath: string, maxAgeMs: number): Promise<OverrideEntry | null> {
+    try {
+        const payload = parseOverridePayload(JSON.parse(await readFile(filePath, "utf8")) as unknown);
+        return payload ? toOverrideEntry(payload, "file", path.basename(filePath, ".json"), maxAgeMs) : null;
     } catch {
         return null;
     }
 }
 
-// ---------------------------------------------------------------------------
-// Strategy 2: Terminal background color query (OSC 11)
-//
-// We spawn a short-lived subprocess that opens /dev/tty directly.
-// This avoids competing with pi's own stdin/stdout handling.
-// The query works transparently over SSH because escape sequences
-// travel through the SSH pseudo-terminal back to the local terminal.
-// ---------------------------------------------------------------------------
+/** The single override file plus every `*.json` in the per-source directory. */
+async function readOverrideEntries(overrideFile: string, maxAgeMs: number): Promise<OverrideEntry[]> {
+    const dir = getOverrideDir(overrideFile);
+    const names = await readdir(dir).catch(() => [] as string[]);
+    const files = [overrideFile, ...names.filter((name) => name.endsWith(".json")).map((name) => path.join(dir, name))];
+    const entries = await Promise.all(files.map((file) => readOverrideFile(file, maxAgeMs)));
+    return entries.filter((entry): entry is OverrideEntry => entry !== null);
+}
 
-const OSC11_QUERY_SCRIPT = `
-'use strict';
-const fs = require('fs');
-const tty = require('tty');
+/** Newest entry per source, so a later "auto" from the same source clears its earlier override. */
+function latestOverrides(entries: OverrideEntry[]): OverrideEntry[] {
+    const latest = new Map<string, OverrideEntry>();
+    for (const entry of entries) {
+        const seen = latest.get(entry.source);
+        if (!seen || overrideUpdatedAt(entry) > overrideUpdatedAt(seen)) latest.set(entry.source, entry);
+    }
+    return [...latest.values()];
+}
 
-const O_NONBLOCK = fs.constants.O_NONBLOCK ?? 0;
-let fd;
-try { fd = fs.openSync('/dev/tty', fs.constants.O_RDWR | fs.constants.O_NOCTTY | O_NONBLOCK); }
-catch { process.exit(1); }
+function isOverrideLive(entry: OverrideEntry, now: number): boolean {
+    return entry.payload.appearance !== "auto" && (entry.expiresAt === null || now < entry.expiresAt);
+}
+
+/** Highest priority, then most recent push, then source name — the same answer on every instance. */
+function compareOverrides(a: OverrideEntry, b: OverrideEntry): number {
+    const byPriority = (b.payload.priority ?? 0) - (a.payload.priority ?? 0);
+    if (byPriority !== 0) return byPriority;
+    const byTime = overrideUpdatedAt(b) - overrideUpdatedAt(a);
+    if (byTime !== 0) return byTime;
+    return a.source < b.source ? -1 : a.source > b.source ? 1 : 0;
+}
 
-let ttyIn = null;
-try {
-    ttyIn = new tty.ReadStream(fd);
-    if (ttyIn.isTTY) ttyIn.setRawMode(true);
-} catch {}
+function selectOverride(entries: OverrideEntry[], now: number): OverrideEntry | null {
+    return entries.filter((entry) => isOverrideLive(entry, now)).sort(compareOverrides)[0] ?? null;
+}
 
-function cleanup() {
-    try { if (ttyIn && ttyIn.isTTY) ttyIn.setRawMode(false); } catch {}
-    try { fs.closeSync(fd); } catch {}
+function formatOverrideEntry(entry: OverrideEntry, now: number): string {
+    const parts = [`${entry.source}=${entry.payload.appearance}`];
+    if (entry.payload.theme) parts.push(`theme:${entry.payload.theme}`);
+    if (entry.payload.priority) parts.push(`p${entry.payload.priority}`);
+    if (entry.payload.appearance !== "auto") {
+        if (entry.expiresAt === null) parts.push(entry.payload.sticky ? "sticky" : "live");
+        else if (now >= entry.expiresAt) parts.push("expired");
+        else parts.push(`${Math.ceil((entry.expiresAt - now) / 1000)}s`);
+    }
+    return `${parts.join(" ")} (${entry.origin})`;
 }
 
-// Send OSC 11 query (BEL terminator)
-try { fs.writeSync(fd, '\x1b]11;?\x07'); }
-catch { cleanup(); process.exit(1); }
+// -- Signing (optional, overrideKey) -----------------------------------------
 
-const buf = Buffer.alloc(1024);
-let response = '';
-const deadline = Date.now() + 2500;
+type ReplayMark = { at: number; signature: string };
 
-function tryRead() {
-    while (true) {
-        try {
-            const n = fs.readSync(fd, buf, 0, buf.length, null);
-            if (n <= 0) return;
-            response += buf.toString('utf8', 0, n);
-            if (response.length > 8192) response = response.slice(-4096);
-        } catch (err) {
-            const code = err && err.code;
-            if (code === 'EAGAIN' || code === 'EWOULDBLOCK') return;
-            return;
+type OverrideAuthState = {
+    /** Newest accepted signed push per source; anything older is a replay. */
+    accepted: Map<string, ReplayMark>;
+    /** Where the marks survive restarts; unset keeps them in memory only. */
+    file?: string;
+    /** Serializes writes of `file`. */
+    saving?: Promise<void>;
+};
+
+type OverrideRejection = { source: string; origin: OverrideEntry["origin"]; reason: string };
+
+/** Fixed field order, so signer and verifier hash the same bytes regardless of key order on the wire. */
+function canonicalOverridePayload(payload: OverridePayload): string {
+    return JSON.stringify([
+        payload.appearance,
+        payload.theme ?? null,
+        payload.updatedAt ?? null,
+        payload.source ?? null,
+        payload.expiresAt ?? null,
+        payload.sticky === true,
+        payload.priority ?? 0,
+    ]);
+}
+
+function overrideSignature(payload: OverridePayload, key: string): string {
+    return createHmac("sha256", key).update(canonicalOverridePayload(payload)).digest("hex");
+}
+
+/** Sign in place; `updatedAt` doubles as the anti-replay counter, so it is filled in when missing. */
+function signOverridePayload(payload: OverridePayload, key: string): OverridePayload {
+    payload.updatedAt ??= new Date().toISOString();
+    payload.signature = overrideSignature(payload, key);
+    return payload;
+}
+
+/** Null when the signature matches, otherwise why it doesn't. */
+function checkOverrideSignature(payload: OverridePayload, key: string): string | null {
+    if (!payload.signature) return "unsigned";
+    const expected = Buffer.from(overrideSignature(payload, key), "hex");
+    const given = Buffer.from(payload.signature, "hex");
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) return "bad signature";
+    return Number.isFinite(Date.parse(payload.updatedAt ?? "")) ? null : "no updatedAt";
+}
+
+/** Null when `updatedAt` hasn't gone backwards for this source; accepting advances the mark. */
+function checkOverrideReplay(payload: OverridePayload, source: string, auth: OverrideAuthState): string | null {
+    const at = Date.parse(payload.updatedAt ?? "");
+    const signature = payload.signature ?? "";
+    // Re-reading the same file on every poll is fine; an older or different push with the same time is not.
+    const last = auth.accepted.get(source);
+    if (last && (at < last.at || (at === last.at && last.signature !== signature))) return "replayed";
+    if (last?.at === at) return null;
+    auth.accepted.set(source, { at, signature });
+    if (auth.file) auth.saving = (auth.saving ?? Promise.resolve()).then(() => saveReplayMarks(auth));
+    return null;
+}
+
+// Replay marks are persisted next to the override file and shared by every
+// instance on the host. Otherwise a restart would accept any old signed
+// payload again, and a sticky one never expires.
+
+function getReplayMarksFile(overrideFile: string): string {
+    return path.join(path.dirname(overrideFile), "theme-sync-replay.json");
+}
+
+function mergeReplayMark(marks: Map<string, ReplayMark>, source: string, mark: ReplayMark): void {
+    const seen = marks.get(source);
+    if (!seen || mark.at > seen.at) marks.set(source, mark);
+}
+
+async function readReplayMarks(file: string): Promise<Map<string, ReplayMark>> {
+    const marks = new Map<string, ReplayMark>();
+    try {
+        const parsed = JSON.parse(await readFile(file, "utf8")) as unknown;
+        if (!isObject(parsed)) return marks;
+        for (const [source, mark] of Object.entries(parsed)) {
+            if (isObject(mark) && typeof mark.at === "number" && typeof mark.signature === "string") {
+                marks.set(source, { at: mark.at, signature: mark.signature });
+            }
         }
+    } catch {
+        // no marks yet
     }
+    return marks;
 }
 
-function to8Bit(hex) {
-    if (!hex) return 0;
-    const h = String(hex);
-    if (h.length <= 2) return parseInt(h.padEnd(2, h[h.length - 1] || '0'), 16);
-    return parseInt(h.slice(0, 2), 16);
+/** Start persisting to `file`, picking up marks other instances (or earlier runs) left there. */
+async function loadReplayMarks(auth: OverrideAuthState, file: string): Promise<void> {
+    auth.file = file;
+    for (const [source, mark] of await readReplayMarks(file)) mergeReplayMark(auth.accepted, source, mark);
 }
 
-function done() {
-    cleanup();
-    const m = response.match(/rgb:([0-9a-fA-F]{2,8})\\/([0-9a-fA-F]{2,8})\\/([0-9a-fA-F]{2,8})/);
-    if (m) {
-        const r = to8Bit(m[1]);
-        const g = to8Bit(m[2]);
-        const b = to8Bit(m[3]);
-        const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
-        process.stdout.write(luminance < 128 ? 'dark' : 'light');
+async function saveReplayMarks(auth: OverrideAuthState): Promise<void> {
+    if (!auth.file) return;
+    // Merge with what's on disk, so instances sharing the file don't roll each other's marks back.
+    const marks = await readReplayMarks(auth.file);
+    for (const [source, mark] of auth.accepted) mergeReplayMark(marks, source, mark);
+    for (const [source, mark] of marks) mergeReplayMark(auth.accepted, source, mark);
+    const temp = `${auth.file}.${process.pid}.tmp`;
+    try {
+        await mkdir(path.dirname(auth.file), { recursive: true });
+        await writeFile(temp, `${JSON.stringify(Object.fromEntries(marks), null, 2)}\n`, { encoding: "utf8", mode: 0o600 });
+        await rename(temp, auth.file);
+    } catch (error) {
+        console.warn(`[pi-theme-sync] replay marks ${auth.file}: ${error instanceof Error ? error.message : String(error)}`);
     }
-    process.exit(0);
 }
 
-function poll() {
-    tryRead();
-    if (response.includes('rgb:') || Date.now() > deadline) return done();
-    setTimeout(poll, 16);
+/**
+ * Newest verified entry per source. Replay is only checked on that entry:
+ * an older push is harmless while a newer one from the same source is around.
+ */
+function authenticateOverrides(
+    entries: OverrideEntry[],
+    key: string | null,
+    auth: OverrideAuthState,
+    rejected: OverrideRejection[],
+): OverrideEntry[] {
+    if (!key) return latestOverrides(entries);
+    const reject = (entry: OverrideEntry, reason: string | null): boolean => {
+        if (reason) rejected.push({ source: entry.source, origin: entry.origin, reason });
+        return reason === null;
+    };
+    const signed = entries.filter((entry) => reject(entry, checkOverrideSignature(entry.payload, key)));
+    return latestOverrides(signed).filter((entry) => reject(entry, checkOverrideReplay(entry.payload, entry.source, auth)));
 }
 
-poll();
-`;
+function formatOverrideRejections(rejected: OverrideRejection[]): string {
+    if (rejected.length === 0) return "none";
+    return rejected.map((entry) => `${entry.source}:${entry.reason} (${entry.origin})`).join(", ");
+}
 
-function queryTerminalBackground(): Promise<Appearance | null> {
-    return new Promise((resolve) => {
-        const timer = setTimeout(() => {
-            child.kill();
-            resolve(null);
-        }, OSC11_QUERY_TIMEOUT_MS + 300);
+/**
+ * Watch a directory for changes to entries matching `matches` and call
+ * `onChange` (debounced).
+ *
+ * We watch the directory rather than the files themselves: pushes usually
+ * land via atomic rename or delete/recreate, which a file-level watcher loses
+ * track of after the first event.
+ */
+function watchDirectory(dir: string, matches: (name: string) => boolean, onChange: () => void): () => void {
+    let watcher: FSWatcher | null = null;
+    let debounceId: ReturnType<typeof setTimeout> | null = null;
+    let closed = false;
 
-        const child = spawn(process.execPath, ["-e", OSC11_QUERY_SCRIPT], {
-            stdio: ["ignore", "pipe", "ignore"],
-            timeout: OSC11_QUERY_TIMEOUT_MS + 300,
+    const schedule = () => {
+        if (closed) return;
+        if (debounceId) clearTimeout(debounceId);
+        debounceId = setTimeout(() => {
+            debounceId = null;
+            if (!closed) onChange();
+        }, OVERRIDE_WATCH_DEBOUNCE_MS);
+    };
+
+    void mkdir(dir, { recursive: true })
+        .catch(() => {
+            // ignore — watch() below reports the real problem
+        })
+        .then(() => {
+            if (closed) return;
+            try {
+                watcher = watch(dir, { persistent: false }, (_event, filename) => {
+                    // Some platforms omit the filename; treat that as "maybe ours".
+                    if (!filename || matches(filename.toString())) schedule();
+                });
+                watcher.on("error", () => {
+                    watcher?.close();
+                    watcher = null;
+                });
+            } catch {
+                // unsupported platform or missing dir → polling still covers it
+            }
         });
 
-        let stdout = "";
-        child.stdout!.on("data", (chunk: Buffer) => {
-            stdout += chunk.toString();
+    return () => {
+        closed = true;
+        if (debounceId) clearTimeout(debounceId);
+        debounceId = null;
+        watcher?.close();
+        watcher = null;
+    };
+}
+
+/** Watch the override file and the per-source override directory. */
+function watchOverrideFiles(overrideFile: string, onChange: () => void): () => void {
+    const base = path.basename(overrideFile);
+    const stops = [
+        watchDirectory(path.dirname(overrideFile), (name) => name === base, onChange),
+        watchDirectory(getOverrideDir(overrideFile), (name) => name.endsWith(".json"), onChange),
+    ];
+    return () => {
+        for (const stop of stops) stop();
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Strategy 1b: Push listener (optional, PI_THEME_SYNC_LISTEN)
+//
+// Accepts the same OverridePayload as the override file, POSTed over HTTP on
+// a Unix domain socket or a loopback port. Pushed values stay in memory, one
+// per source, and age out like file overrides: after overrideMaxAgeMs, or at
+// their lease, unless sticky. Closing the listener forgets them.
+// ---------------------------------------------------------------------------
+
+type ListenTarget = { kind: "socket"; path: string } | { kind: "tcp"; port: number };
+
+type PushListenerStatus = {
+    state: "off" | "listening" | "error";
+    address: string | null;
+    error: string | null;
+    received: number;
+    rejected: number;
+    lastRejection: string | null;
+    lastPayload: OverridePayload | null;
+    lastReceivedAt: number;
+};
+
+function getListenTarget(): ListenTarget | null {
+    const raw = String(process.env.PI_THEME_SYNC_LISTEN ?? "").trim();
+    const lower = raw.toLowerCase();
+    if (!raw || lower === "0" || lower === "false" || lower === "off") return null;
+    if (lower === "1" || lower === "true" || lower === "on" || lower === "socket") {
+        return { kind: "socket", path: DEFAULT_LISTEN_SOCKET };
+    }
+    if (/^\d+$/.test(raw)) {
+        const port = Number.parseInt(raw, 10);
+        return port > 0 && port < 65536 ? { kind: "tcp", port } : null;
+    }
+    return { kind: "socket", path: raw.startsWith("~/") ? path.join(os.homedir(), raw.slice(2)) : raw };
+}
+
+function formatListenTarget(target: ListenTarget): string {
+    return target.kind === "socket" ? `unix:${target.path}` : `tcp:127.0.0.1:${target.port}`;
+}
+
+/** True when something is accepting connections on the socket (i.e. not a stale file). */
+function isSocketAlive(socketPath: string): Promise<boolean> {
+    return new Promise((resolve) => {
+        const socket = connect(socketPath);
+        socket.once("connect", () => {
+            socket.destroy();
+            resolve(true);
         });
+        socket.once("error", () => resolve(false));
+    });
+}
 
-        child.on("close", () => {
-            clearTimeout(timer);
-            const trimmed = stdout.trim();
-            if (trimmed === "dark" || trimmed === "light") {
-                resolve(trimmed);
-            } else {
-                resolve(null);
+async function startPushListener(
+    target: ListenTarget,
+    onPayload: (payload: OverridePayload) => void,
+    status: PushListenerStatus,
+    verify: (payload: OverridePayload) => string | null,
+): Promise<Server | null> {
+    const server = createServer((req, res) => {
+        const reply = (code: number, body: Record<string, unknown>) => {
+            res.writeHead(code, { "content-type": "application/json" });
+            res.end(`${JSON.stringify(body)}\n`);
+        };
+
+        if (req.method !== "POST" && req.method !== "PUT") {
+            reply(405, { ok: false, error: "use POST with an override payload" });
+            return;
+        }
+
+        let body = "";
+        let tooLarge = false;
+        req.setEncoding("utf8");
+        req.on("data", (chunk: string) => {
+            if (tooLarge) return;
+            body += chunk;
+            if (body.length > LISTENER_MAX_BODY_BYTES) {
+                tooLarge = true;
+                body = "";
+                status.rejected += 1;
+                res.setHeader("connection", "close");
+                reply(413, { ok: false, error: `payload larger than ${LISTENER_MAX_BODY_BYTES} bytes` });
+                res.on("finish", () => req.destroy());
             }
         });
-
-        child.on("error", () => {
-            clearTimeout(timer);
-            resolve(null);
+        req.on("end", () => {
+            if (tooLarge) return;
+            let payload: OverridePayload | null = null;
+            try {
+                payload = parseOverridePayload(JSON.parse(body) as unknown);
+                if (payload && !payload.updatedAt) payload.updatedAt = new Date().toISOString();
+            } catch {
+                // fall through to rejection
+            }
+            const rejection = payload ? verify(payload) : null;
+            if (payload && rejection) {
+                status.rejected += 1;
+                status.lastRejection = `${payload.source ?? "listener"}:${rejection}`;
+                reply(403, { ok: false, error: rejection });
+                return;
+            }
+            if (!payload) {
+                status.rejected += 1;
+                reply(400, {
+                    ok: false,
+                    error: 'expected {"appearance":"dark"|"light"|"auto", "theme"?, "expiresAt"?, "sticky"?, "priority"?}',
+                });
+                return;
+            }
+            status.received += 1;
+            status.lastPayload = payload;
+            status.lastReceivedAt = Date.now();
+            onPayload(payload);
+            reply(200, { ok: true, appearance: payload.appearance });
         });
     });
-}
 
-// ---------------------------------------------------------------------------
-// Strategy 3: OS-level detection (fallback)
-// ---------------------------------------------------------------------------
+    const listen = () =>
+        new Promise<void>((resolve, reject) => {
+            server.once("error", reject);
+            if (target.kind === "socket") server.listen(target.path, resolve);
+            else server.listen(target.port, "127.0.0.1", resolve);
+        });
 
-async function detectMacAppearance(): Promise<Appearance | null> {
+    status.address = formatListenTarget(target);
     try {
-        const { stdout } = await execFileAsync("/usr/bin/defaults", ["read", "-g", "AppleInterfaceStyle"], {
-            timeout: DETECTION_TIMEOUT_MS,
-            windowsHide: true,
-        });
-        return normalizeSettingValue(stdout) === "dark" ? "dark" : null;
+        if (target.kind === "socket") {
+            await mkdir(path.dirname(target.path), { recursive: true });
+            try {
+                await listen();
+            } catch (error) {
+                // A leftover socket from a crashed session blocks bind; replace it
+                // unless another pi instance is actually serving on it.
+                if ((error as NodeJS.ErrnoException).code !== "EADDRINUSE" || (await isSocketAlive(target.path))) {
+                    throw error;
+                }
+                const { rm } = await import("node:fs/promises");
+                await rm(target.path, { force: true });
+                await listen();
+            }
+            const { chmod } = await import("node:fs/promises");
+            await chmod(target.path, 0o600).catch(() => {});
+        } else {
+            await listen();
+        }
+        server.unref();
+        status.state = "listening";
+        status.error = null;
+        return server;
     } catch (error) {
-        const stderr = extractStderr(error).toLowerCase();
-        if (stderr.includes("does not exist")) return "light";
+        server.close();
+        status.state = "error";
+        status.error = error instanceof Error ? error.message : String(error);
         return null;
     }
 }
 
-async function detectLinuxAppearance(): Promise<Appearance | null> {
-    try {
-        const { stdout } = await execFileAsync("gsettings", ["get", "org.gnome.desktop.interface", "color-scheme"], {
-            timeout: DETECTION_TIMEOUT_MS,
-            windowsHide: true,
-        });
-        const v = normalizeSettingValue(stdout);
-        if (v === "prefer-dark") return "dark";
-        if (v === "prefer-light") return "light";
-    } catch {
-        // ignore
-    }
+function formatListenerStatus(status: PushListenerStatus): string {
+    if (status.state === "off") return "off";
+    if (status.state === "error") return `error:${status.address} (${status.error ?? "unknown"})`;
+    const last = status.lastPayload
+        ? `${status.lastPayload.appearance}@${new Date(status.lastReceivedAt).toISOString()}`
+        : "none";
+    const rejection = status.lastRejection ? ` lastRejected=${status.lastRejection}` : "";
+    return `${status.address} received=${status.received} rejected=${status.rejected}${rejection} last=${last}`;
+}
 
-    try {
-        const { stdout } = await execFileAsync("gsettings", ["get", "org.gnome.desktop.interface", "gtk-theme"], {
-            timeout: DETECTION_TIMEOUT_MS,
-            windowsHide: true,
-        });
-        const v = normalizeSettingValue(stdout);
-        if (v.includes("dark")) return "dark";
-        if (v.includes("light")) return "light";
-    } catch {
-        // ignore
+function stopPushListener(server: Server, target: ListenTarget): void {
+    server.close();
+    if (target.kind === "socket") {
+        void import("node:fs/promises").then(({ rm }) => rm(target.path, { force: true })).catch(() => {});
     }
+}
 
-    return null;
+// ---------------------------------------------------------------------------
+// Strategy 2: Terminal color-scheme notifications (DEC private mode 2031)
+//
+// After `CSI ? 2031 h`, supporting terminals (Ghostty, contour, kitty, ...)
+// send an unsolicited `CSI ? 997 ; 1|2 n` whenever their color scheme
+// flips (1 = dark, 2 = light). `CSI ? 996 n` asks for the current value.
+// Support is checked first with DECRQM (`CSI ? 2031 $ p`); terminals that
+// don't answer keep using OSC 11 polling.
+//
+// Replies arrive on pi's own stdin, so we read them through
+// ctx.ui.onTerminalInput instead of competing for /dev/tty.
+// ---------------------------------------------------------------------------
+
+type ColorSchemeState = {
+    status: "off" | "probing" | "active" | "unsupported";
+    appearance: Appearance | null;
+    updatedAt: number;
+    reports: number;
+};
+
+const COLOR_SCHEME_DECRQM = "\x1b[?2031$p";
+const COLOR_SCHEME_ENABLE = "\x1b[?2031h";
+const COLOR_SCHEME_DISABLE = "\x1b[?2031l";
+const COLOR_SCHEME_QUERY = "\x1b[?996n";
+
+function isColorSchemeEnabled(): boolean {
+    const raw = String(process.env.PI_THEME_SYNC_COLOR_SCHEME ?? "1").trim().toLowerCase();
+    return raw !== "0" && raw !== "false" && raw !== "off";
 }
 
-async function detectWindowsAppearance(): Promise<Appearance | null> {
-    try {
-        const { stdout } = await execFileAsync(
-            "reg",
-            [
-                "query",
-                "HKCU\\Software\\Microsoft\\Windows\\CurrentVersion\\Themes\\Personalize",
-                "/v",
-                "AppsUseLightTheme",
-            ],
-            { timeout: DETECTION_TIMEOUT_MS, windowsHide: true },
-        );
-        const match = stdout.match(/AppsUseLightTheme\s+REG_DWORD\s+(\S+)/i);
-        if (!match) return null;
-        const raw = match[1] ?? "";
-        const num = raw.toLowerCase().startsWith("0x")
-            ? Number.parseInt(raw.slice(2), 16)
-            : Number.parseInt(raw, 10);
-        if (num === 0) return "dark";
-        if (num === 1) return "light";
+function parseColorSchemeReport(data: string): Appearance | null {
+    const m = data.match(/\x1b\[\?997;([12])n/);
+    if (!m) return null;
+    return m[1] === "1" ? "dark" : "light";
+}
+
+/** DECRPM reply for mode 2031: 0 = not recognized, 1/2 = set/reset, 3/4 = permanently set/reset. */
+function parseColorSchemeModeReply(data: string): number | null {
+    const m = data.match(/\x1b\[\?2031;(\d)\$y/);
+    return m ? Number.parseInt(m[1]!, 10) : null;
+}
+
+function writeToTerminal(sequence: string): boolean {
+    if (!process.stdout.isTTY) return false;
+    try {
+        process.stdout.write(sequence);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Enable mode 2031 if the terminal acknowledges it, and report appearance
+ * changes through `onChange`. `ready` settles once the DECRQM handshake has
+ * been answered or timed out; `stop` also turns the mode back off.
+ */
+function subscribeColorScheme(
+    ctx: ExtensionContext,
+    state: ColorSchemeState,
+    onChange: (appearance: Appearance) => void,
+): { ready: Promise<void>; stop: () => void } {
+    state.status = "probing";
+    state.appearance = null;
+
+    let settle: () => void = () => {};
+    const ready = new Promise<void>((resolve) => {
+        settle = resolve;
+    });
+
+    const unsubscribe = ctx.ui.onTerminalInput((data) => {
+        const mode = parseColorSchemeModeReply(data);
+        if (mode !== null) {
+            if (state.status !== "probing") return { consume: true };
+            clearTimeout(ackTimer);
+            if (mode === 1 || mode === 2 || mode === 3) {
+                state.status = "active";
+                writeToTerminal(COLOR_SCHEME_ENABLE + COLOR_SCHEME_QUERY);
+            } else {
+                state.status = "unsupported";
+            }
+            settle();
+            return { consume: true };
+        }
+
+        const appearance = parseColorSchemeReport(data);
+        if (!appearance) return undefined;
+        state.reports += 1;
+        state.updatedAt = Date.now();
+        if (state.appearance !== appearance) {
+            state.appearance = appearance;
+            if (state.status === "active") onChange(appearance);
+        }
+        return { consume: true };
+    });
+
+    const ackTimer = setTimeout(() => {
+        if (state.status === "probing") state.status = "unsupported";
+        settle();
+    }, COLOR_SCHEME_ACK_TIMEOUT_MS);
+    ackTimer.unref?.();
+
+    if (!writeToTerminal(COLOR_SCHEME_DECRQM)) {
+        clearTimeout(ackTimer);
+        state.status = "unsupported";
+        settle();
+    }
+
+    return {
+        ready,
+        stop: () => {
+            clearTimeout(ackTimer);
+            settle();
+            unsubscribe();
+            if (state.status === "active") writeToTerminal(COLOR_SCHEME_DISABLE);
+            state.status = "off";
+            state.appearance = null;
+        },
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Color classification
+//
+// Terminals answer color queries in XParseColor syntax: `rgb:h/h/h` with
+// 1–4 hex digits per channel (usually 16-bit, `rgb:1e1e/1e1e/2e2e`), the
+// `rgba:` variant some terminals use, or legacy `#rgb`…`#rrrrggggbbbb`.
+// Channels are scaled by their own width, so `f` and `ffff` both mean 1.0.
+//
+// Classification uses WCAG relative luminance (linearized sRGB) against a
+// configurable threshold, with a hysteresis band around it so palettes that
+// sit near the boundary don't flap between themes.
+// ---------------------------------------------------------------------------
+
+/** Channels in 0..1. */
+type Rgb = [number, number, number];
+
+function parseHexChannel(hex: string): number {
+    return Number.parseInt(hex, 16) / (16 ** hex.length - 1);
+}
+
+function parseTerminalColor(text: string): Rgb | null {
+    const spec = text.trim();
+
+    const m = spec.match(/^rgba?:([0-9a-f]{1,4})\/([0-9a-f]{1,4})\/([0-9a-f]{1,4})(?:\/[0-9a-f]{1,4})?$/i);
+    if (m) return [parseHexChannel(m[1]!), parseHexChannel(m[2]!), parseHexChannel(m[3]!)];
+
+    const hash = spec.match(/^#([0-9a-f]+)$/i);
+    if (hash && [3, 6, 9, 12].includes(hash[1]!.length)) {
+        const width = hash[1]!.length / 3;
+        const digits = hash[1]!;
+        return [
+            parseHexChannel(digits.slice(0, width)),
+            parseHexChannel(digits.slice(width, 2 * width)),
+            parseHexChannel(digits.slice(2 * width)),
+        ];
+    }
+
+    return null;
+}
+
+/** WCAG 2.x relative luminance (0 = black, 1 = white). */
+function relativeLuminance(rgb: Rgb): number {
+    const linear = rgb.map((c) => (c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4));
+    return 0.2126 * linear[0]! + 0.7152 * linear[1]! + 0.0722 * linear[2]!;
+}
+
+/** CIELAB L* (0–100) for a relative luminance; shown in traces because it reads more naturally. */
+function lightnessFromLuminance(y: number): number {
+    return y > 216 / 24389 ? 116 * Math.cbrt(y) - 16 : (24389 / 27) * y;
+}
+
+/** Bands in effect: the configured list, or dark/light split at the threshold. */
+function getBands(config: Config): ThemeBand[] {
+    return (
+        config.bands ?? [
+            { below: config.luminanceThreshold, theme: config.darkTheme, appearance: "dark" },
+            { below: null, theme: config.lightTheme, appearance: "light" },
+        ]
+    );
+}
+
+/**
+ * Pick the band for a background luminance. With a previous band, its edges
+ * are widened by half the hysteresis width, so a switch needs a clear
+ * crossing rather than a nudge.
+ */
+function selectBand(luminance: number, bands: ThemeBand[], hysteresis: number, previous: number | null): number {
+    let index = bands.findIndex((band) => band.below === null || luminance < band.below);
+    if (index < 0) index = bands.length - 1;
+
+    if (previous !== null && previous !== index && previous < bands.length) {
+        const half = hysteresis / 2;
+        const lower = previous > 0 ? bands[previous - 1]!.below! : Number.NEGATIVE_INFINITY;
+        const upper = bands[previous]!.below ?? Number.POSITIVE_INFINITY;
+        if (luminance >= lower - half && luminance < upper + half) return previous;
+    }
+
+    return index;
+}
+
+/** Dark/light for a one-off color reading (no previous band), through the configured bands. */
+function appearanceForRgb(config: Config, rgb: Rgb): Appearance {
+    const bands = getBands(config);
+    return bands[selectBand(relativeLuminance(rgb), bands, config.luminanceHysteresis, null)]!.appearance;
+}
+
+function formatBand(bands: ThemeBand[], index: number): string {
+    const band = bands[index];
+    if (!band) return "n/a";
+    const bound = band.below === null ? "rest" : `<${band.below}`;
+    return `${index} (${bound} → ${band.theme}, ${band.appearance})`;
+}
+
+/** Theme for a detection result: the luminance band when known, else the dark/light mapping. */
+function targetThemeFor(config: Config, trace: DetectionTrace): string | null {
+    if (!trace.appearance) return null;
+    if (trace.band !== null) {
+        const band = getBands(config)[trace.band];
+        if (band) return band.theme;
+    }
+    return trace.appearance === "dark" ? config.darkTheme : config.lightTheme;
+}
+
+function formatRgb(rgb: Rgb): string {
+    return `#${rgb.map((c) => Math.round(c * 255).toString(16).padStart(2, "0")).join("")}`;
+}
+
+function formatLuminance(luminance: number | null): string {
+    if (luminance === null) return "n/a";
+    return `${luminance.toFixed(3)} (L*=${lightnessFromLuminance(luminance).toFixed(1)})`;
+}
+
+// ---------------------------------------------------------------------------
+// Strategy 3: Terminal background color query (OSC 11)
+//
+// A helper subprocess opens /dev/tty directly for each probe.
+// This avoids competing with pi's own stdin/stdout handling.
+// The query works transparently over SSH because escape sequences
+// travel through the SSH pseudo-terminal back to the local terminal.
+//
+// The helper is long-lived: it reads "probe" lines on stdin and answers
+// each with one JSON line on stdout, so we pay node startup once per
+// session instead of once per query.
+// ---------------------------------------------------------------------------
+
+const OSC11_QUERY_SCRIPT = `
+'use strict';
+const fs = require('fs');
+const tty = require('tty');
+const readline = require('readline');
+
+const O_NONBLOCK = fs.constants.O_NONBLOCK ?? 0;
+
+// Matches a complete OSC 11 reply, BEL- or ST-terminated.
+const REPLY_RE = /\x1b\]11;([^\x07\x1b]*)(?:\x07|\x1b\\\\)/;
+// Any OSC 10 / 11 / 4;N color reply.
+const COLOR_REPLY_RE = /\x1b\](10|11|4;(\\d+));([^\x07\x1b]*)(?:\x07|\x1b\\\\)/g;
+// Primary device attributes reply; every terminal answers DA1, so it marks
+// the end of the batch even when some color queries go unanswered.
+const DA1_REPLY_RE = /\x1b\\[\\?[\\d;]*c/;
+
+// Set by a "cancel" line while a query runs: the user started typing, so
+// stop reading /dev/tty before we swallow their keystrokes.
+let cancelRequested = false;
+
+function ttyQuery(query, timeoutMs, isComplete, finish) {
+    const startedAt = Date.now();
+    let fd;
+    try { fd = fs.openSync('/dev/tty', fs.constants.O_RDWR | fs.constants.O_NOCTTY | O_NONBLOCK); }
+    catch { return finish(null, 'no-tty', 0); }
+
+    let ttyIn = null;
+    try {
+        ttyIn = new tty.ReadStream(fd);
+        if (ttyIn.isTTY) ttyIn.setRawMode(true);
+    } catch {}
+
+    function cleanup() {
+        try { if (ttyIn && ttyIn.isTTY) ttyIn.setRawMode(false); } catch {}
+        try { fs.closeSync(fd); } catch {}
+    }
+
+    try { fs.writeSync(fd, query); }
+    catch { cleanup(); return finish(null, 'write-failed', 0); }
+
+    const buf = Buffer.alloc(1024);
+    let response = '';
+    const deadline = startedAt + timeoutMs;
+
+    function tryRead() {
+        while (true) {
+            try {
+                const n = fs.readSync(fd, buf, 0, buf.length, null);
+                if (n <= 0) return;
+                response += buf.toString('utf8', 0, n);
+                if (response.length > 8192) response = response.slice(-4096);
+            } catch (err) {
+                const code = err && err.code;
+                if (code === 'EAGAIN' || code === 'EWOULDBLOCK') return;
+                return;
+            }
+        }
+    }
+
+    function poll() {
+        if (cancelRequested) {
+            cleanup();
+            return finish(null, 'cancelled', Date.now() - startedAt);
+        }
+        tryRead();
+        if (isComplete(response) || Date.now() > deadline) {
+            cleanup();
+            return finish(response, null, Date.now() - startedAt);
+        }
+        setTimeout(poll, 16);
+    }
+
+    poll();
+}
+
+// Inside tmux, DCS passthrough hands the query to the outer terminal;
+// ESC bytes inside the wrapper are doubled.
+function wrapForTmux(query) {
+    return '\x1bPtmux;' + query.replace(/\x1b/g, '\x1b\x1b') + '\x1b\\\\';
+}
+
+// Color parsing happens in the extension; we only hand back reply bodies.
+function probe(reply, options) {
+    const query = '\x1b]11;?' + options.terminator;
+    ttyQuery(options.passthrough ? wrapForTmux(query) : query, options.timeoutMs, (r) => REPLY_RE.test(r), (response, error, latencyMs) => {
+        const m = response === null ? null : response.match(REPLY_RE);
+        if (!m) return reply({ color: null, error: error || 'timeout', latencyMs });
+        reply({ color: m[1], latencyMs });
+    });
+}
+
+function palette(reply, options) {
+    const end = options.terminator;
+    let query = '\x1b]10;?' + end + '\x1b]11;?' + end;
+    for (let i = 0; i < 16; i++) query += '\x1b]4;' + i + ';?' + end;
+    query += '\x1b[c';
+
+    ttyQuery(options.passthrough ? wrapForTmux(query) : query, options.timeoutMs, (r) => DA1_REPLY_RE.test(r), (response, error, latencyMs) => {
+        if (response === null) return reply({ error, latencyMs });
+        const result = { foreground: null, background: null, palette: new Array(16).fill(null), latencyMs };
+        for (const m of response.matchAll(COLOR_REPLY_RE)) {
+            if (m[1] === '10') result.foreground = m[3];
+            else if (m[1] === '11') result.background = m[3];
+            else if (Number(m[2]) < 16) result.palette[Number(m[2])] = m[3];
+        }
+        reply(result);
+    });
+}
+
+const COMMANDS = { probe, palette };
+
+// One request at a time; exit once stdin closes and the queue is drained.
+const queue = [];
+let busy = false;
+let closing = false;
+
+function next() {
+    if (busy) return;
+    const command = queue.shift();
+    if (!command) {
+        if (closing) process.exit(0);
+        return;
+    }
+    busy = true;
+    cancelRequested = false;
+    command((result) => {
+        process.stdout.write(JSON.stringify(result) + '\\n');
+        busy = false;
+        next();
+    });
+}
+
+readline.createInterface({ input: process.stdin })
+    .on('line', (line) => {
+        if (line.trim() === 'cancel') {
+            if (busy) cancelRequested = true;
+            return;
+        }
+        // "<command> [tmux] [st] [timeout=<ms>]": DCS passthrough, ST instead
+        // of BEL, reply deadline.
+        const [name, ...flags] = line.trim().split(' ');
+        const command = COMMANDS[name];
+        if (!command) return;
+        const timeout = flags.find((flag) => flag.startsWith('timeout='));
+        const options = {
+            passthrough: flags.includes('tmux'),
+            terminator: flags.includes('st') ? '\x1b\\\\' : '\x07',
+            timeoutMs: Number(timeout ? timeout.slice(8) : '') || 2500,
+        };
+        queue.push((reply) => command(reply, options));
+        next();
+    })
+    .on('close', () => {
+        closing = true;
+        next();
+    });
+`;
+
+type Osc11Sample = {
+    rgb: Rgb;
+    latencyMs: number;
+};
+
+type HelperCommand = "probe" | "palette";
+
+/** How one helper query goes out; unset fields use the default terminal profile. */
+type ProbeOptions = {
+    /** Wrap in tmux DCS passthrough. */
+    passthrough?: boolean;
+    terminator?: TerminalProfile["terminator"];
+    timeoutMs?: number;
+};
+
+type Osc11Helper = {
+    /** Send one command and resolve with its raw JSON reply line (null on timeout or crash). */
+    request(command: HelperCommand, options?: ProbeOptions): Promise<string | null>;
+    probe(options?: ProbeOptions): Promise<Osc11Sample | "cancelled" | null>;
+    /** Abort the running query (it resolves as cancelled); true if one was running. */
+    cancel(): boolean;
+    stop(): void;
+    status(): { pid: number | null; restarts: number; probes: number };
+};
+
+function isOsc11HelperEnabled(): boolean {
+    const raw = String(process.env.PI_THEME_SYNC_OSC11_HELPER ?? "1").trim().toLowerCase();
+    return raw !== "0" && raw !== "false" && raw !== "off";
+}
+
+/** Request line for the helper script: `<command> [tmux] [st] timeout=<ms>`. */
+function toHelperLine(command: HelperCommand, options: ProbeOptions): string {
+    const flags: string[] = [command];
+    if (options.passthrough) flags.push("tmux");
+    if (options.terminator === "st") flags.push("st");
+    flags.push(`timeout=${options.timeoutMs ?? OSC11_REPLY_TIMEOUT_MS}`);
+    return `${flags.join(" ")}\n`;
+}
+
+function helperWatchdogMs(options: ProbeOptions): number {
+    return (options.timeoutMs ?? OSC11_REPLY_TIMEOUT_MS) + OSC11_WATCHDOG_SLACK_MS;
+}
+
+function parseOsc11Reply(line: string): Osc11Sample | "cancelled" | null {
+    try {
+        const parsed = JSON.parse(line) as unknown;
+        if (isObject(parsed) && parsed.error === "cancelled") return "cancelled";
+        if (!isObject(parsed) || typeof parsed.color !== "string") return null;
+        const rgb = parseTerminalColor(parsed.color);
+        if (!rgb) return null;
+        const latencyMs = typeof parsed.latencyMs === "number" ? parsed.latencyMs : 0;
+        return { rgb, latencyMs };
+    } catch {
         return null;
+    }
+}
+
+/**
+ * Long-lived OSC 11 helper. The subprocess is spawned lazily on the first
+ * probe and respawned on the next probe if it crashed or was killed after
+ * a timeout. Probes are serialized: the protocol has one reply per request.
+ */
+function createOsc11Helper(): Osc11Helper {
+    let child: ChildProcess | null = null;
+    // The running request and the process it was sent to; a dying old process must not answer a newer request.
+    let pending: { proc: ChildProcess; resolve: (line: string | null) => void } | null = null;
+    // One "cancel" line per request is enough; the helper only tracks a flag.
+    let cancelSent = false;
+    let queue: Promise<unknown> = Promise.resolve();
+    let spawned = 0;
+    let probes = 0;
+    let stopped = false;
+
+    function ensureChild(): ChildProcess | null {
+        if (child) return child;
+        if (stopped) return null;
+
+        const next = spawn(process.execPath, ["-e", OSC11_QUERY_SCRIPT], {
+            stdio: ["pipe", "pipe", "ignore"],
+        });
+        spawned += 1;
+        let stdoutBuffer = "";
+        const settle = (line: string | null) => {
+            if (pending?.proc !== next) return;
+            const { resolve } = pending;
+            pending = null;
+            resolve(line);
+        };
+
+        next.stdout!.setEncoding("utf8");
+        next.stdout!.on("data", (chunk: string) => {
+            stdoutBuffer += chunk;
+            let newline = stdoutBuffer.indexOf("\n");
+            while (newline >= 0) {
+                const line = stdoutBuffer.slice(0, newline);
+                stdoutBuffer = stdoutBuffer.slice(newline + 1);
+                settle(line);
+                newline = stdoutBuffer.indexOf("\n");
+            }
+        });
+        next.stdin!.on("error", () => {
+            // helper died mid-write; the exit handler below resolves the probe
+        });
+        const onGone = () => {
+            if (child === next) child = null;
+            settle(null);
+        };
+        next.on("exit", onGone);
+        next.on("error", onGone);
+        next.unref();
+
+        child = next;
+        return next;
+    }
+
+    function requestOnce(command: HelperCommand, options: ProbeOptions): Promise<string | null> {
+        return new Promise((resolve) => {
+            const proc = ensureChild();
+            if (!proc) {
+                resolve(null);
+                return;
+            }
+            probes += 1;
+
+            const timer = setTimeout(() => {
+                // A stuck helper can't be trusted with the next request, which
+                // may be queued right behind this one: drop it before it exits.
+                if (child === proc) child = null;
+                if (pending?.proc === proc) pending = null;
+                proc.kill();
+                resolve(null);
+            }, helperWatchdogMs(options));
+
+            cancelSent = false;
+            pending = {
+                proc,
+                resolve: (line) => {
+                    clearTimeout(timer);
+                    resolve(line);
+                },
+            };
+            proc.stdin!.write(toHelperLine(command, options));
+        });
+    }
+
+    function request(command: HelperCommand, options: ProbeOptions = {}): Promise<string | null> {
+        const run = () => requestOnce(command, options);
+        const result = queue.then(run, run);
+        queue = result;
+        return result;
+    }
+
+    return {
+        request,
+        async probe(options = {}) {
+            const line = await request("probe", options);
+            return line === null ? null : parseOsc11Reply(line);
+        },
+        cancel() {
+            if (!pending) return false;
+            if (!cancelSent) pending.proc.stdin!.write("cancel\n");
+            cancelSent = true;
+            return true;
+        },
+        stop() {
+            stopped = true;
+            child?.kill();
+            child = null;
+        },
+        status() {
+            return { pid: child?.pid ?? null, restarts: Math.max(0, spawned - 1), probes };
+        },
+    };
+}
+
+/**
+ * Run a single command with a throwaway helper (no long-lived process).
+ * Aborting sends it "cancel", so it restores the tty before exiting.
+ */
+function runHelperOnce(command: HelperCommand, options: ProbeOptions = {}, signal?: AbortSignal): Promise<string | null> {
+    return new Promise((resolve) => {
+        const timer = setTimeout(() => {
+            child.kill();
+            resolve(null);
+        }, helperWatchdogMs(options));
+
+        const child = spawn(process.execPath, ["-e", OSC11_QUERY_SCRIPT], {
+            stdio: ["pipe", "pipe", "ignore"],
+            timeout: helperWatchdogMs(options),
+        });
+
+        // stdin stays open until the reply, so a cancel line can still reach the helper.
+        const onAbort = () => child.stdin!.end("cancel\n");
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        let stdout = "";
+        child.stdout!.on("data", (chunk: Buffer) => {
+            stdout += chunk.toString();
+            if (stdout.includes("\n")) child.stdin!.end();
+        });
+        child.stdin!.on("error", () => {});
+        child.stdin!.write(toHelperLine(command, options));
+
+        child.on("close", () => {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", onAbort);
+            resolve(stdout.trim().split("\n")[0] || null);
+        });
+
+        child.on("error", () => {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", onAbort);
+            resolve(null);
+        });
+    });
+}
+
+function formatOsc11Helper(helper: Osc11Helper | null): string {
+    if (!helper) return "one-shot";
+    const { pid, restarts, probes } = helper.status();
+    return `${pid === null ? "idle" : `pid:${pid}`} probes=${probes} restarts=${restarts}`;
+}
+
+/** Aborting `signal` cancels the query, which then resolves as "cancelled". */
+async function queryTerminalBackground(
+    helper?: Osc11Helper | null,
+    options: ProbeOptions = {},
+    signal?: AbortSignal,
+): Promise<Osc11Sample | "cancelled" | null> {
+    if (signal?.aborted) return "cancelled";
+    if (helper) {
+        const onAbort = () => helper.cancel();
+        signal?.addEventListener("abort", onAbort, { once: true });
+        try {
+            return await helper.probe(options);
+        } finally {
+            signal?.removeEventListener("abort", onAbort);
+        }
+    }
+    const line = await runHelperOnce("probe", options, signal);
+    if (signal?.aborted) return "cancelled";
+    return line === null ? null : parseOsc11Reply(line);
+}
+
+// ---------------------------------------------------------------------------
+// tmux
+//
+// Inside tmux, a pane's OSC 11 query goes to tmux rather than the terminal.
+// Depending on version and settings tmux answers it itself or drops it.
+// Wrapping the query in DCS passthrough (`ESC P tmux; … ESC \`) forwards it
+// to the outer terminal; tmux 3.3+ only allows that with allow-passthrough.
+// With several clients attached we follow the one `tmux display -p` picks
+// (the most recently active) and re-detect whenever that changes.
+// ---------------------------------------------------------------------------
+
+type TmuxClient = {
+    version: string | null;
+    /** Active client; what `tmux display -p` resolves to from inside the pane. */
+    clientTty: string | null;
+    clientTermName: string | null;
+    /** XTVERSION / DA reply tmux got from the client terminal (tmux 3.3+). */
+    clientTermType: string | null;
+    /** Number of clients attached to this session. */
+    attached: number;
+    /** Whether passthrough reaches the outer terminal: always before 3.3, else with allow-passthrough. */
+    passthroughAllowed: boolean;
+    /** SSH_CONNECTION in the session environment (refreshed by tmux on every attach), else the global one. */
+    sshConnection: string | null;
+    /** Where SSH_CONNECTION was looked up; "removed" means the last attach came from a local terminal. */
+    sshConnectionScope: "session" | "removed" | "global" | null;
+};
+
+type TmuxProbeMode = "plain" | "passthrough";
+
+const TMUX_CLIENT_FORMAT = "#{client_tty}\t#{client_termname}\t#{session_attached}";
+const TMUX_WATCH_MS = 3000;
+
+function getTmuxPassthroughSetting(): "auto" | "on" | "off" {
+    const raw = String(process.env.PI_THEME_SYNC_TMUX_PASSTHROUGH ?? "auto").trim().toLowerCase();
+    if (raw === "1" || raw === "true" || raw === "on") return "on";
+    if (raw === "0" || raw === "false" || raw === "off") return "off";
+    return "auto";
+}
+
+async function runTmux(args: string[]): Promise<string | null> {
+    try {
+        const { stdout } = await execFileAsync("tmux", args, { timeout: DETECTION_TIMEOUT_MS });
+        return stdout;
     } catch {
         return null;
     }
 }
 
-async function detectOSAppearance(): Promise<Appearance | null> {
-    switch (process.platform) {
-        case "darwin":
-            return detectMacAppearance();
-        case "linux":
-            return detectLinuxAppearance();
-        case "win32":
-            return detectWindowsAppearance();
-        default:
-            return null;
+function parseTmuxVersion(version: string | null): number | null {
+    const match = version?.match(/(\d+)\.(\d+)/);
+    return match ? Number(match[1]) * 100 + Number(match[2]) : null;
+}
+
+async function readTmuxClient(): Promise<TmuxClient | null> {
+    if (!process.env.TMUX) return null;
+    const [client, passthrough, ssh] = await Promise.all([
+        runTmux(["display-message", "-p", `#{version}\t${TMUX_CLIENT_FORMAT}\t#{client_termtype}`]),
+        runTmux(["show-options", "-Apqv", "allow-passthrough"]),
+        runTmux(["show-environment", "SSH_CONNECTION"]),
+    ]);
+    if (client === null) return null;
+
+    const [version = "", tty = "", termName = "", attached = "0", termType = ""] = client.replace(/\n$/, "").split("\t");
+    const numericVersion = parseTmuxVersion(version);
+    const passthroughOption = (passthrough ?? "").trim().split("\n")[0]!.trim();
+    // `-SSH_CONNECTION` means tmux removed it on attach from a local terminal;
+    // no line at all means update-environment doesn't manage it, so fall back to the global value.
+    let sshLine = (ssh ?? "").trim();
+    let sshScope: TmuxClient["sshConnectionScope"] = sshLine.startsWith("SSH_CONNECTION=")
+        ? "session"
+        : sshLine === "-SSH_CONNECTION"
+          ? "removed"
+          : null;
+    if (sshScope === null) {
+        sshLine = ((await runTmux(["show-environment", "-g", "SSH_CONNECTION"])) ?? "").trim();
+        if (sshLine.startsWith("SSH_CONNECTION=")) sshScope = "global";
     }
+    return {
+        version: version || null,
+        clientTty: tty || null,
+        clientTermName: termName || null,
+        clientTermType: termType.trim() || null,
+        attached: Number.parseInt(attached, 10) || 0,
+        passthroughAllowed:
+            (numericVersion !== null && numericVersion < 303) || passthroughOption === "on" || passthroughOption === "all",
+        sshConnection: sshLine.startsWith("SSH_CONNECTION=") ? sshLine.slice("SSH_CONNECTION=".length) : null,
+        sshConnectionScope: sshScope,
+    };
+}
+
+/** How the next OSC 11 query is sent; `learned` flips after a query goes unanswered (see runOsc11Strategy). */
+function chooseTmuxProbeMode(tmux: TmuxClient | null, learned: TmuxProbeMode): TmuxProbeMode {
+    if (!tmux) return "plain";
+    const setting = getTmuxPassthroughSetting();
+    if (setting !== "auto") return setting === "on" ? "passthrough" : "plain";
+    return tmux.passthroughAllowed ? learned : "plain";
+}
+
+/** Poll the active client and attach count; `onChange` gets a fresh snapshot when either moves. */
+function watchTmuxClient(onChange: (client: TmuxClient | null) => void): () => void {
+    if (!process.env.TMUX) return () => {};
+    let last: string | null = null;
+    let stopped = false;
+
+    const check = async () => {
+        const current = await runTmux(["display-message", "-p", TMUX_CLIENT_FORMAT]);
+        if (stopped || current === null) return;
+        const changed = last !== null && current !== last;
+        last = current;
+        if (!changed) return;
+        const client = await readTmuxClient();
+        if (!stopped) onChange(client);
+    };
+
+    void check();
+    const timer = setInterval(() => void check(), TMUX_WATCH_MS);
+    timer.unref();
+    return () => {
+        stopped = true;
+        clearInterval(timer);
+    };
+}
+
+function formatTmuxClient(tmux: TmuxClient | null, mode: TmuxProbeMode): string {
+    if (!tmux) return process.env.TMUX ? "unavailable" : "off";
+    const client = tmux.clientTty ? `${tmux.clientTty}${tmux.clientTermName ? ` (${tmux.clientTermName})` : ""}` : "none";
+    return [
+        `version=${tmux.version ?? "?"}`,
+        `client=${client}`,
+        `attached=${tmux.attached}`,
+        `passthrough=${tmux.passthroughAllowed ? "allowed" : "blocked"}`,
+        `probe=${mode}`,
+        `ssh=${tmux.sshConnection ? `yes(${tmux.sshConnectionScope})` : tmux.sshConnectionScope ?? "no"}`,
+    ].join(" ");
+}
+
+// ---------------------------------------------------------------------------
+// Terminal identification and quirks profiles
+//
+// Terminals differ in how fast (and whether) they answer OSC 11, which
+// terminator they expect and whether mode 2031 is worth asking for. The
+// terminal is identified once per session: XTVERSION (`CSI > 0 q`) names
+// it even over SSH, DA2 (`CSI > c`) covers a few that don't answer that,
+// and DA1 (`CSI c`), which every terminal answers, ends the exchange.
+// Inside tmux the queries would reach tmux itself, so we use what tmux
+// learned about its client instead. TERM_PROGRAM / LC_TERMINAL / TERM are
+// the fallback. The name picks a profile; config.terminalProfiles can
+// override any field or add profiles.
+// ---------------------------------------------------------------------------
+
+type TerminalIdentity = {
+    /** Lowercase name, e.g. "ghostty", "iterm2"; null when nothing identified it. */
+    name: string | null;
+    version: string | null;
+    source: "xtversion" | "da2" | "tmux-client" | "term-program" | "lc-terminal" | "term" | "none";
+};
+
+type ResolvedTerminalProfile = {
+    /** Profile key, or "default" when no profile matched. */
+    name: string;
+    profile: TerminalProfile;
+    /** Whether config.terminalProfiles changed anything. */
+    custom: boolean;
+};
+
+const DEFAULT_TERMINAL_PROFILE: TerminalProfile = {
+    match: [],
+    replyTimeoutMs: OSC11_REPLY_TIMEOUT_MS,
+    minIntervalMs: OSC11_MIN_INTERVAL_MS,
+    disableAfterFailures: OSC11_DISABLE_AFTER_FAILURES,
+    terminator: "bel",
+    colorScheme: true,
+    backgroundProbe: true,
+};
+
+/** Built-in profiles; fields left out come from the default profile. */
+const TERMINAL_PROFILES: Record<string, Partial<TerminalProfile>> = {
+    ghostty: { match: ["xterm-ghostty"], replyTimeoutMs: 1000, terminator: "st" },
+    kitty: { match: ["xterm-kitty"], replyTimeoutMs: 1000, terminator: "st" },
+    wezterm: { replyTimeoutMs: 1000, terminator: "st" },
+    contour: { replyTimeoutMs: 1000, terminator: "st" },
+    foot: { replyTimeoutMs: 1000, terminator: "st" },
+    alacritty: { replyTimeoutMs: 1000 },
+    vte: { match: ["gnome-terminal", "tilix", "xfce4-terminal"], replyTimeoutMs: 1500 },
+    xterm: { replyTimeoutMs: 1000, colorScheme: false },
+    iterm2: { match: ["iterm.app"], replyTimeoutMs: 1500, colorScheme: false },
+    "apple-terminal": { match: ["apple_terminal"], replyTimeoutMs: 1500, colorScheme: false },
+    vscode: { replyTimeoutMs: 1500, colorScheme: false },
+    konsole: { replyTimeoutMs: 1500, colorScheme: false },
+    mintty: { replyTimeoutMs: 1500, colorScheme: false },
+    urxvt: { match: ["rxvt-unicode"], colorScheme: false },
+    // Neither forwards nor answers OSC 11: give up after one try and never probe in the background.
+    screen: { disableAfterFailures: 1, colorScheme: false, backgroundProbe: false },
+    linux: { disableAfterFailures: 1, colorScheme: false, backgroundProbe: false },
+};
+
+const TERMINAL_ID_QUERY = "\x1b[>0q\x1b[>c\x1b[c";
+const XTVERSION_REPLY_RE = /\x1bP>\|([^\x1b]*)\x1b\\/;
+const DA2_REPLY_RE = /\x1b\[>(\d+);(\d+)(?:;\d+)?c/;
+const DA1_REPLY_RE = /\x1b\[\?[\d;]*c/;
+
+/** "kitty(0.35.2)", "ghostty 1.1.3", "XTerm(390)" → name and version. */
+function parseTerminalVersion(text: string): { name: string; version: string | null } | null {
+    const match = text.trim().match(/^([^\s(]+)[\s(]*([^)]*)\)?/);
+    if (!match) return null;
+    return { name: match[1]!.toLowerCase(), version: match[2]!.trim() || null };
+}
+
+/** DA2 "terminal type" codes that are specific enough to name a terminal. */
+function nameFromDa2(type: number, version: number): string | null {
+    if (type === 83) return "screen";
+    if (type === 84) return "tmux";
+    if (type === 85) return "urxvt";
+    if (type === 77) return "mintty";
+    if (type === 65 && version >= 6000) return "vte";
+    if (type === 1 && version >= 4000 && version < 5000) return "kitty";
+    return null;
+}
+
+/**
+ * Only TERM values that name one terminal; `xterm-256color` says nothing,
+ * and `screen*` is what tmux panes get too (screen itself is told by $STY).
+ */
+function nameFromTerm(term: string | undefined | null): string | null {
+    const value = term?.trim().toLowerCase();
+    if (!value) return null;
+    if (value === "xterm-kitty" || value === "xterm-ghostty") return value.slice("xterm-".length);
+    const match = value.match(/^(foot|alacritty|wezterm|contour|rxvt-unicode|linux|mintty)\b/);
+    if (!match) return null;
+    return match[1] === "rxvt-unicode" ? "urxvt" : match[1]!;
+}
+
+function parseTerminalIdentity(replies: string): TerminalIdentity | null {
+    const xtversion = replies.match(XTVERSION_REPLY_RE);
+    const parsed = xtversion ? parseTerminalVersion(xtversion[1]!) : null;
+    if (parsed) return { ...parsed, source: "xtversion" };
+    const da2 = replies.match(DA2_REPLY_RE);
+    const name = da2 ? nameFromDa2(Number(da2[1]), Number(da2[2])) : null;
+    return name ? { name, version: da2![2]!, source: "da2" } : null;
+}
+
+/** Ask the terminal on pi's own stdout; replies come back through ctx.ui.onTerminalInput. */
+function queryTerminalIdentity(ctx: ExtensionContext): Promise<TerminalIdentity | null> {
+    return new Promise((resolve) => {
+        let replies = "";
+        let done = false;
+        const finish = () => {
+            if (done) return;
+            done = true;
+            clearTimeout(timer);
+            unsubscribe();
+            resolve(parseTerminalIdentity(replies));
+        };
+
+        const unsubscribe = ctx.ui.onTerminalInput((data) => {
+            if (!XTVERSION_REPLY_RE.test(data) && !DA2_REPLY_RE.test(data) && !DA1_REPLY_RE.test(data)) return undefined;
+            replies += data;
+            if (DA1_REPLY_RE.test(data)) finish();
+            return { consume: true };
+        });
+        const timer = setTimeout(finish, COLOR_SCHEME_ACK_TIMEOUT_MS);
+        timer.unref?.();
+
+        if (!writeToTerminal(TERMINAL_ID_QUERY)) finish();
+    });
+}
+
+function identityFromTmux(tmux: TmuxClient): TerminalIdentity | null {
+    const parsed = tmux.clientTermType ? parseTerminalVersion(tmux.clientTermType) : null;
+    if (parsed) return { ...parsed, source: "tmux-client" };
+    const name = nameFromTerm(tmux.clientTermName);
+    return name ? { name, version: null, source: "tmux-client" } : null;
+}
+
+function identityFromEnvironment(): TerminalIdentity {
+    const termProgram = process.env.TERM_PROGRAM?.trim().toLowerCase();
+    // tmux sets TERM_PROGRAM for its panes.
+    if (termProgram && termProgram !== "tmux") {
+        return { name: termProgram, version: process.env.TERM_PROGRAM_VERSION?.trim() || null, source: "term-program" };
+    }
+    const lcTerminal = process.env.LC_TERMINAL?.trim().toLowerCase();
+    if (lcTerminal) return { name: lcTerminal, version: process.env.LC_TERMINAL_VERSION?.trim() || null, source: "lc-terminal" };
+    if (process.env.VTE_VERSION) return { name: "vte", version: process.env.VTE_VERSION, source: "term" };
+    if (process.env.KONSOLE_VERSION) return { name: "konsole", version: process.env.KONSOLE_VERSION, source: "term" };
+    // Inside tmux, TERM describes tmux (`screen-256color`, `tmux-256color`), not the client terminal.
+    if (process.env.TMUX) return { name: null, version: null, source: "none" };
+    if (process.env.STY) return { name: "screen", version: null, source: "term" };
+    const term = nameFromTerm(process.env.TERM);
+    return term ? { name: term, version: null, source: "term" } : { name: null, version: null, source: "none" };
+}
+
+async function identifyTerminal(ctx: ExtensionContext, tmux: TmuxClient | null): Promise<TerminalIdentity> {
+    const replied = tmux ? identityFromTmux(tmux) : await queryTerminalIdentity(ctx);
+    return replied ?? identityFromEnvironment();
+}
+
+/** User profiles are checked before built-in ones, so they can claim a name; fields merge over the built-in entry. */
+function resolveTerminalProfile(
+    identity: TerminalIdentity | null,
+    custom: Record<string, Partial<TerminalProfile>>,
+): ResolvedTerminalProfile {
+    const merged = (name: string): Partial<TerminalProfile> => ({ ...TERMINAL_PROFILES[name], ...custom[name] });
+    const base = { ...DEFAULT_TERMINAL_PROFILE, ...custom.default };
+    const terminal = identity?.name ?? null;
+    const names = [...Object.keys(custom), ...Object.keys(TERMINAL_PROFILES)].filter((name) => name !== "default");
+    const name = terminal ? names.find((candidate) => candidate === terminal || (merged(candidate).match ?? []).includes(terminal)) : undefined;
+    if (!name) return { name: "default", profile: base, custom: custom.default !== undefined };
+    return { name, profile: { ...base, ...merged(name) }, custom: custom[name] !== undefined || custom.default !== undefined };
+}
+
+/** Helper options for one query under a profile. */
+function toProbeOptions(profile: TerminalProfile, mode: TmuxProbeMode): ProbeOptions {
+    return { passthrough: mode === "passthrough", terminator: profile.terminator, timeoutMs: profile.replyTimeoutMs };
+}
+
+function formatTerminalProfile(identity: TerminalIdentity | null, resolved: ResolvedTerminalProfile): string {
+    const terminal = identity?.name
+        ? `${identity.name}${identity.version ? ` ${identity.version}` : ""} via ${identity.source}`
+        : "unknown";
+    const { profile } = resolved;
+    return [
+        `${terminal};`,
+        `profile=${resolved.name}${resolved.custom ? "(custom)" : ""}`,
+        `reply=${profile.replyTimeoutMs}ms`,
+        `interval=${getOsc11MinIntervalMs(profile)}ms`,
+        `failures=${profile.disableAfterFailures}`,
+        `terminator=${profile.terminator}`,
+        `2031=${profile.colorScheme ? "ask" : "skip"}`,
+        `background=${profile.backgroundProbe ? "yes" : "no"}`,
+    ].join(" ");
+}
+
+// ---------------------------------------------------------------------------
+// Probe coordination (PI_THEME_SYNC_COORDINATE, on by default)
+//
+// pi instances in tmux panes share one client terminal. Rather than each
+// probing /dev/tty on its own schedule, they elect one leader per terminal
+// with a lock file in COORDINATION_DIR. The leader probes and publishes the
+// background color to a shared state file; followers read it. The lock holds
+// the leader's pid and a heartbeat, so when the leader exits (or hangs) the
+// next follower to tick takes over.
+// ---------------------------------------------------------------------------
+
+type ProbeLease = { pid: number; host: string; heartbeatAt: number };
+
+type SharedSample = { rgb: Rgb; sampledAt: number; pid: number };
+
+type ProbeCoordinator = {
+    /** Terminal (or tmux client tty) the lock is keyed by, sanitized for a file name. */
+    key: string;
+    /** Take the lease if it's free or its holder is gone; true while this instance leads. */
+    claim(): Promise<boolean>;
+    readShared(): Promise<SharedSample | null>;
+    publish(rgb: Rgb): Promise<void>;
+    /** Step down (shutdown, pin); another instance claims on its next tick. */
+    release(): Promise<void>;
+    /** Call `onChange` when another instance publishes a sample. */
+    watch(onChange: () => void): () => void;
+    status(): { role: "leader" | "follower" | "unclaimed"; leader: ProbeLease | null; shared: SharedSample | null };
+};
+
+function isCoordinationEnabled(): boolean {
+    const raw = String(process.env.PI_THEME_SYNC_COORDINATE ?? "1").trim().toLowerCase();
+    return raw !== "0" && raw !== "false" && raw !== "off";
+}
+
+/** Lock key for the tty that answers OSC 11 for this process; null when there isn't one. */
+async function getTerminalKey(tmux: TmuxClient | null): Promise<string | null> {
+    // Every tmux pane has its own pty; the terminal that answers is the client's.
+    const tty = tmux?.clientTty ?? (await getProcessTty());
+    return tty ? `${os.hostname()}${tty}`.replace(/[^A-Za-z0-9._-]/g, "_") : null;
+}
+
+/** This process's controlling tty, e.g. `/dev/pts/3`. */
+async function getProcessTty(): Promise<string | null> {
+    let tty = await readlink("/proc/self/fd/0").catch(() => "");
+    if (!tty.startsWith("/dev/")) {
+        const { stdout } = await execFileAsync("ps", ["-o", "tty=", "-p", String(process.pid)], {
+            timeout: DETECTION_TIMEOUT_MS,
+        }).catch(() => ({ stdout: "" }));
+        const name = stdout.trim();
+        tty = name && !name.startsWith("?") ? `/dev/${name}` : "";
+    }
+    return !tty || tty === "/dev/null" ? null : tty;
+}
+
+function toProbeLease(value: unknown): ProbeLease | null {
+    if (!isObject(value)) return null;
+    const { pid, host, heartbeatAt } = value;
+    if (typeof pid !== "number" || typeof host !== "string" || typeof heartbeatAt !== "number") return null;
+    return { pid, host, heartbeatAt };
+}
+
+function isLeaseAlive(lease: ProbeLease, now: number): boolean {
+    if (now - lease.heartbeatAt > LEADER_STALE_MS) return false;
+    // Only pids on this host can be checked; elsewhere the heartbeat has to do.
+    if (lease.host !== os.hostname()) return true;
+    try {
+        process.kill(lease.pid, 0);
+        return true;
+    } catch (error) {
+        return (error as NodeJS.ErrnoException).code === "EPERM";
+    }
+}
+
+function createProbeCoordinator(key: string): ProbeCoordinator {
+    const lockPath = path.join(COORDINATION_DIR, `${key}.lock`);
+    const statePath = path.join(COORDINATION_DIR, `${key}.json`);
+    const host = os.hostname();
+    let leading = false;
+    let leader: ProbeLease | null = null;
+    let shared: SharedSample | null = null;
+    let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+    const readLease = async (file = lockPath): Promise<ProbeLease | null> => {
+        try {
+            return toProbeLease(JSON.parse(await readFile(file, "utf8")) as unknown);
+        } catch {
+            return null;
+        }
+    };
+    const isMine = (lease: ProbeLease | null): boolean => lease !== null && lease.pid === process.pid && lease.host === host;
+    const newLease = (): ProbeLease => ({ pid: process.pid, host, heartbeatAt: Date.now() });
+
+    function stopHeartbeat(): void {
+        if (heartbeat) clearInterval(heartbeat);
+        heartbeat = null;
+    }
+
+    function follow(lease: ProbeLease | null): false {
+        leading = false;
+        leader = lease;
+        stopHeartbeat();
+        return false;
+    }
+
+    /**
+     * Move a stale lock out of the way without clobbering a fresh one. The
+     * rename is atomic, so we hold whatever lease was there at that instant;
+     * if another instance took over since we read it, put theirs back.
+     */
+    async function evictStaleLock(): Promise<boolean> {
+        const aside = `${lockPath}.${process.pid}.stale`;
+        try {
+            await rename(lockPath, aside);
+        } catch (error) {
+            return (error as NodeJS.ErrnoException).code === "ENOENT";
+        }
+        const moved = await readLease(aside);
+        if (moved && isLeaseAlive(moved, Date.now())) {
+            // link() fails if a third instance created a lock meanwhile; theirs stands.
+            await link(aside, lockPath).catch(() => {});
+            await rm(aside, { force: true }).catch(() => {});
+            return false;
+        }
+        await rm(aside, { force: true }).catch(() => {});
+        return true;
+    }
+
+    function lead(lease: ProbeLease): true {
+        leading = true;
+        leader = lease;
+        if (!heartbeat) {
+            heartbeat = setInterval(() => {
+                void readLease().then(async (current) => {
+                    if (!isMine(current)) {
+                        follow(current);
+                        return;
+                    }
+                    leader = newLease();
+                    await writeFile(lockPath, JSON.stringify(leader), "utf8").catch(() => {});
+                });
+            }, LEADER_HEARTBEAT_MS);
+            heartbeat.unref();
+        }
+        return true;
+    }
+
+    return {
+        key,
+        async claim() {
+            await mkdir(COORDINATION_DIR, { recursive: true }).catch(() => {});
+            const current = await readLease();
+            if (isMine(current)) return lead(current!);
+            if (current && isLeaseAlive(current, Date.now())) return follow(current);
+
+            // Free, or the holder is gone. Only one instance can create the
+            // lock (wx); the rest follow whoever did.
+            if (current && !(await evictStaleLock())) return follow(await readLease());
+            const lease = newLease();
+            try {
+                await writeFile(lockPath, JSON.stringify(lease), { encoding: "utf8", flag: "wx" });
+                return lead(lease);
+            } catch {
+                return follow(await readLease());
+            }
+        },
+        async readShared() {
+            try {
+                const parsed = JSON.parse(await readFile(statePath, "utf8")) as unknown;
+                if (!isObject(parsed) || typeof parsed.sampledAt !== "number" || typeof parsed.pid !== "number") return null;
+                const rgb = Array.isArray(parsed.rgb) && parsed.rgb.length === 3 ? (parsed.rgb as unknown[]) : null;
+                if (!rgb || !rgb.every((channel) => typeof channel === "number" && channel >= 0 && channel <= 1)) return null;
+                shared = { rgb: rgb as Rgb, sampledAt: parsed.sampledAt, pid: parsed.pid };
+                return shared;
+            } catch {
+                return null;
+            }
+        },
+        async publish(rgb) {
+            shared = { rgb, sampledAt: Date.now(), pid: process.pid };
+            const temp = `${statePath}.${process.pid}.tmp`;
+            try {
+                await writeFile(temp, JSON.stringify(shared), "utf8");
+                await rename(temp, statePath);
+            } catch {
+                // best effort: followers fall back to their other strategies
+            }
+        },
+        async release() {
+            const wasLeading = leading;
+            follow(null);
+            if (wasLeading && isMine(await readLease())) await rm(lockPath, { force: true }).catch(() => {});
+        },
+        watch(onChange) {
+            const name = path.basename(statePath);
+            return watchDirectory(COORDINATION_DIR, (file) => file === name, () => {
+                if (!leading) onChange();
+            });
+        },
+        status() {
+            return { role: leading ? "leader" : leader ? "follower" : "unclaimed", leader, shared };
+        },
+    };
+}
+
+function formatProbeCoordinator(coordinator: ProbeCoordinator | null, now: number): string {
+    if (!coordinator) return isCoordinationEnabled() && isOsc11Enabled() ? "off (no terminal)" : "off";
+    const { role, leader, shared } = coordinator.status();
+    const parts = [`${role} key=${coordinator.key}`];
+    if (leader && role === "follower") {
+        parts.push(`leader=${leader.pid}@${leader.host} heartbeat=${Math.round((now - leader.heartbeatAt) / 1000)}s`);
+    }
+    parts.push(shared ? `shared=${formatRgb(shared.rgb)} from ${shared.pid}, ${Math.round((now - shared.sampledAt) / 1000)}s old` : "shared=none");
+    return parts.join(" ");
+}
+
+// ---------------------------------------------------------------------------
+// Generated theme (opt-in, config.generateTheme)
+//
+// Queries the terminal's foreground (OSC 10), background (OSC 11) and the 16
+// ANSI colors (OSC 4) through the same /dev/tty helper, then writes a pi
+// theme built from them to ~/.pi/agent/themes/. pi loads custom themes by
+// name from that directory, so applying it is a plain setTheme(name).
+// ---------------------------------------------------------------------------
+
+const GENERATED_THEME_NAME = "terminal-palette";
+const GENERATED_THEME_PATH = path.join(os.homedir(), ".pi", "agent", "themes", `${GENERATED_THEME_NAME}.json`);
+
+type TerminalPalette = {
+    foreground: Rgb;
+    background: Rgb;
+    /** ANSI 0–15; missing bright entries (8–15) fall back to their normal counterparts. */
+    ansi: Rgb[];
+};
+
+type PaletteState = {
+    palette: TerminalPalette | null;
+    /** Appearance the palette was captured under; a flip makes it stale. */
+    appearance: Appearance | null;
+    updatedAt: number;
+    failedAt: number;
+};
+
+function parsePaletteReply(line: string): TerminalPalette | null {
+    try {
+        const parsed = JSON.parse(line) as unknown;
+        if (!isObject(parsed) || !Array.isArray(parsed.palette)) return null;
+        const foreground = typeof parsed.foreground === "string" ? parseTerminalColor(parsed.foreground) : null;
+        const background = typeof parsed.background === "string" ? parseTerminalColor(parsed.background) : null;
+        if (!foreground || !background) return null;
+
+        const entries = parsed.palette.map((entry) => (typeof entry === "string" ? parseTerminalColor(entry) : null));
+        const ansi: Rgb[] = [];
+        for (let i = 0; i < 16; i++) {
+            const color = entries[i] ?? (i >= 8 ? ansi[i - 8] : null);
+            if (!color) return null;
+            ansi.push(color);
+        }
+        return { foreground, background, ansi };
+    } catch {
+        return null;
+    }
+}
+
+async function queryTerminalPalette(
+    helper?: Osc11Helper | null,
+    options: ProbeOptions = {},
+    signal?: AbortSignal,
+): Promise<TerminalPalette | null> {
+    const line = helper ? await helper.request("palette", options) : await runHelperOnce("palette", options, signal);
+    return line === null ? null : parsePaletteReply(line);
+}
+
+function mixRgb(from: Rgb, to: Rgb, amount: number): Rgb {
+    return [0, 1, 2].map((i) => from[i]! + (to[i]! - from[i]!) * amount) as Rgb;
+}
+
+/** Build a pi theme JSON whose colors come straight from the terminal palette. */
+function synthesizeTheme(palette: TerminalPalette): Record<string, unknown> {
+    const { foreground: fg, background: bg, ansi } = palette;
+    const hex = formatRgb;
+    const [, red, green, yellow, blue, magenta, cyan] = ansi;
+    const [brightBlack, , , brightYellow, brightBlue, brightMagenta, brightCyan] = ansi.slice(8);
+    const muted = hex(mixRgb(fg, bg, 0.45));
+    const dim = hex(mixRgb(fg, bg, 0.6));
+    const faint = hex(mixRgb(fg, bg, 0.75));
+
+    return {
+        $schema:
+            "https://raw.githubusercontent.com/badlogic/pi-mono/main/packages/coding-agent/src/modes/interactive/theme/theme-schema.json",
+        name: GENERATED_THEME_NAME,
+        colors: {
+            accent: hex(cyan!),
+            border: hex(blue!),
+            borderAccent: hex(brightCyan!),
+            borderMuted: faint,
+            success: hex(green!),
+            error: hex(red!),
+            warning: hex(yellow!),
+            muted,
+            dim,
+            text: "",
+            thinkingText: muted,
+
+            selectedBg: hex(mixRgb(bg, fg, 0.14)),
+            userMessageBg: hex(mixRgb(bg, fg, 0.07)),
+            userMessageText: "",
+            customMessageBg: hex(mixRgb(bg, magenta!, 0.12)),
+            customMessageText: "",
+            customMessageLabel: hex(brightMagenta!),
+            toolPendingBg: hex(mixRgb(bg, blue!, 0.08)),
+            toolSuccessBg: hex(mixRgb(bg, green!, 0.1)),
+            toolErrorBg: hex(mixRgb(bg, red!, 0.12)),
+            toolTitle: "",
+            toolOutput: muted,
+
+            mdHeading: hex(brightYellow!),
+            mdLink: hex(brightBlue!),
+            mdLinkUrl: dim,
+            mdCode: hex(cyan!),
+            mdCodeBlock: hex(green!),
+            mdCodeBlockBorder: muted,
+            mdQuote: muted,
+            mdQuoteBorder: muted,
+            mdHr: muted,
+            mdListBullet: hex(cyan!),
+
+            toolDiffAdded: hex(green!),
+            toolDiffRemoved: hex(red!),
+            toolDiffContext: muted,
+
+            syntaxComment: hex(brightBlack!),
+            syntaxKeyword: hex(magenta!),
+            syntaxFunction: hex(blue!),
+            syntaxVariable: hex(brightCyan!),
+            syntaxString: hex(green!),
+            syntaxNumber: hex(yellow!),
+            syntaxType: hex(cyan!),
+            syntaxOperator: hex(fg),
+            syntaxPunctuation: hex(fg),
+
+            thinkingOff: faint,
+            thinkingMinimal: dim,
+            thinkingLow: hex(blue!),
+            thinkingMedium: hex(brightBlue!),
+            thinkingHigh: hex(magenta!),
+            thinkingXhigh: hex(brightMagenta!),
+
+            bashMode: hex(green!),
+        },
+        export: {
+            pageBg: hex(bg),
+            cardBg: hex(mixRgb(bg, fg, 0.04)),
+            infoBg: hex(mixRgb(bg, yellow!, 0.15)),
+        },
+    };
+}
+
+async function writeGeneratedTheme(palette: TerminalPalette): Promise<void> {
+    await mkdir(path.dirname(GENERATED_THEME_PATH), { recursive: true });
+    await writeFile(GENERATED_THEME_PATH, `${JSON.stringify(synthesizeTheme(palette), null, 4)}\n`, "utf8");
+}
+
+function formatPaletteState(state: PaletteState, enabled: boolean): string {
+    if (!enabled) return "off";
+    if (!state.palette) return state.failedAt > 0 ? `unavailable since ${new Date(state.failedAt).toISOString()}` : "pending";
+    return (
+        `${GENERATED_THEME_NAME} bg=${formatRgb(state.palette.background)} fg=${formatRgb(state.palette.foreground)} ` +
+        `(${state.appearance}) @${new Date(state.updatedAt).toISOString()}`
+    );
+}
+
+// ---------------------------------------------------------------------------
+// Strategy 4: OS-level detection (fallback)
+// ---------------------------------------------------------------------------
+
+async function detectMacAppearance(): Promise<Appearance | null> {
+    try {
+        const { stdout } = await execFileAsync("/usr/bin/defaults", ["read", "-g", "AppleInterfaceStyle"], {
+            timeout: DETECTION_TIMEOUT_MS,
+            windowsHide: true,
+        });
+        return normalizeSettingValue(stdout) === "dark" ? "dark" : null;
+    } catch (error) {
+        const stderr = extractStderr(error).toLowerCase();
+        if (stderr.includes("does not exist")) return "light";
+        return null;
+    }
+}
+
+/** Outcome of one OS backend, kept per backend so traces show which one answered. */
+type OSBackendResult = {
+    backend: string;
+    appearance: Appearance | null;
+    detail: string | null;
+};
+
+const PORTAL_DEST = "org.freedesktop.portal.Desktop";
+const PORTAL_PATH = "/org/freedesktop/portal/desktop";
+
+/** Portal `color-scheme`: 0 = no preference, 1 = prefer dark, 2 = prefer light. */
+function portalValueToAppearance(value: number | null): Appearance | null {
+    if (value === 1) return "dark";
+    if (value === 2) return "light";
+    return null;
+}
+
+function parsePortalColorScheme(output: string): number | null {
+    // gdbus: "(<<uint32 1>>,)"   busctl: "v u 1" / "v v u 1"
+    const m = output.match(/uint32\s+(\d+)/) ?? output.match(/\bu\s+(\d+)/);
+    return m ? Number.parseInt(m[1]!, 10) : null;
+}
+
+async function detectPortalAppearance(): Promise<OSBackendResult> {
+    const attempts: [string, string[]][] = [
+        [
+            "gdbus",
+            [
+                "call", "--session", "--dest", PORTAL_DEST, "--object-path", PORTAL_PATH,
+                "--method", "org.freedesktop.portal.Settings.Read", "org.freedesktop.appearance", "color-scheme",
+            ],
+        ],
+        [
+            "busctl",
+            [
+                "--user", "call", PORTAL_DEST, PORTAL_PATH, "org.freedesktop.portal.Settings", "Read", "ss",
+                "org.freedesktop.appearance", "color-scheme",
+            ],
+        ],
+    ];
+
+    for (const [tool, args] of attempts) {
+        try {
+            const { stdout } = await execFileAsync(tool, args, { timeout: DETECTION_TIMEOUT_MS, windowsHide: true });
+            const value = parsePortalColorScheme(stdout);
+            return { backend: `portal(${tool})`, appearance: portalValueToAppearance(value), detail: `color-scheme=${value ?? "?"}` };
+        } catch {
+            // tool missing or no portal on the bus → try the next one
+        }
+    }
+    return { backend: "portal", appearance: null, detail: "unavailable" };
+}
+
+async function detectGsettingsColorScheme(): Promise<OSBackendResult> {
+    try {
+        const { stdout } = await execFileAsync("gsettings", ["get", "org.gnome.desktop.interface", "color-scheme"], {
+            timeout: DETECTION_TIMEOUT_MS,
+            windowsHide: true,
+        });
+        const v = normalizeSettingValue(stdout);
+        const appearance = v === "prefer-dark" ? "dark" : v === "prefer-light" ? "light" : null;
+        return { backend: "gsettings:color-scheme", appearance, detail: v };
+    } catch {
+        return { backend: "gsettings:color-scheme", appearance: null, detail: "unavailable" };
+    }
+}
+
+async function detectGsettingsGtkTheme(): Promise<OSBackendResult> {
+    try {
+        const { stdout } = await execFileAsync("gsettings", ["get", "org.gnome.desktop.interface", "gtk-theme"], {
+            timeout: DETECTION_TIMEOUT_MS,
+            windowsHide: true,
+        });
+        const v = normalizeSettingValue(stdout);
+        const appearance = v.includes("dark") ? "dark" : v.includes("light") ? "light" : null;
+        return { backend: "gsettings:gtk-theme", appearance, detail: v };
+    } catch {
+        return { backend: "gsettings:gtk-theme", appearance: null, detail: "unavailable" };
+    }
+}
+
+/**
+ * KDE keeps the active color scheme in kdeglobals. The window background
+ * ([Colors:Window] BackgroundNormal=r,g,b) is the most reliable signal;
+ * the scheme name ([General] ColorScheme=BreezeDark) is the fallback.
+ */
+function parseKdeGlobals(text: string, config: Config): { appearance: Appearance | null; detail: string | null } {
+    let section = "";
+    let background: string | null = null;
+    let scheme: string | null = null;
+    for (const rawLine of text.split("\n")) {
+        const line = rawLine.trim();
+        const header = line.match(/^\[(.+)\]$/);
+        if (header) {
+            section = header[1]!;
+            continue;
+        }
+        const eq = line.indexOf("=");
+        if (eq < 0) continue;
+        const key = line.slice(0, eq).trim();
+        const value = line.slice(eq + 1).trim();
+        if (section === "Colors:Window" && key === "BackgroundNormal") background = value;
+        if (section === "General" && key === "ColorScheme") scheme = value;
+    }
+
+    const channels = background?.split(",").map((part) => Number.parseInt(part.trim(), 10));
+    if (channels && channels.length >= 3 && channels.slice(0, 3).every((c) => Number.isFinite(c))) {
+        const rgb = channels.slice(0, 3).map((c) => c / 255) as Rgb;
+        return { appearance: appearanceForRgb(config, rgb), detail: `BackgroundNormal=${formatRgb(rgb)}` };
+    }
+    if (scheme) {
+        const lower = scheme.toLowerCase();
+        const appearance = lower.includes("dark") ? "dark" : lower.includes("light") ? "light" : null;
+        return { appearance, detail: `ColorScheme=${scheme}` };
+    }
+    return { appearance: null, detail: null };
+}
+
+async function detectKdeAppearance(config: Config): Promise<OSBackendResult> {
+    const configHome = process.env.XDG_CONFIG_HOME?.trim() || path.join(os.homedir(), ".config");
+    try {
+        const text = await readFile(path.join(configHome, "kdeglobals"), "utf8");
+        return { backend: "kdeglobals", ...parseKdeGlobals(text, config) };
+    } catch {
+        return { backend: "kdeglobals", appearance: null, detail: "missing" };
+    }
+}
+
+async function detectGtkThemeEnv(): Promise<OSBackendResult> {
+    const raw = process.env.GTK_THEME?.trim();
+    if (!raw) return { backend: "GTK_THEME", appearance: null, detail: "unset" };
+    // "Adwaita:dark" → variant after the colon; otherwise look at the name.
+    const lower = raw.toLowerCase();
+    const appearance = lower.includes("dark") ? "dark" : lower.includes("light") ? "light" : null;
+    return { backend: "GTK_THEME", appearance, detail: raw };
+}
+
+/**
+ * Linux has no single source of truth, so try backends from the most
+ * desktop-agnostic (xdg-desktop-portal) to the most specific and stop at
+ * the first that answers.
+ */
+async function detectLinuxAppearance(config: Config): Promise<OSBackendResult[]> {
+    const backends: ((config: Config) => Promise<OSBackendResult>)[] = [
+        detectPortalAppearance,
+        detectGsettingsColorScheme,
+        detectKdeAppearance,
+        detectGsettingsGtkTheme,
+        detectGtkThemeEnv,
+    ];
+    const results: OSBackendResult[] = [];
+    for (const backend of backends) {
+        const result = await backend(config);
+        results.push(result);
+        if (result.appearance) break;
+    }
+    return results;
+}
+
+async function detectWindowsAppearance(): Promise<Appearance | null> {
+    try {
+        const { stdout } = await execFileAsync(
+            "reg",
+            [
+                "query",
+                "HKCU\\Software\\Microsoft\\Windows\\CurrentVersion\\Themes\\Personalize",
+                "/v",
+                "AppsUseLightTheme",
+            ],
+            { timeout: DETECTION_TIMEOUT_MS, windowsHide: true },
+        );
+        const match = stdout.match(/AppsUseLightTheme\s+REG_DWORD\s+(\S+)/i);
+        if (!match) return null;
+        const raw = match[1] ?? "";
+        const num = raw.toLowerCase().startsWith("0x")
+            ? Number.parseInt(raw.slice(2), 16)
+            : Number.parseInt(raw, 10);
+        if (num === 0) return "dark";
+        if (num === 1) return "light";
+        return null;
+    } catch {
+        return null;
+    }
+}
+
+/** `config` classifies backends that report a color (KDE) with the user's threshold and bands. */
+async function detectOSAppearanceWithTrace(config: Config): Promise<OSBackendResult[]> {
+    switch (process.platform) {
+        case "darwin":
+            return [{ backend: "defaults", appearance: await detectMacAppearance(), detail: null }];
+        case "linux":
+            return detectLinuxAppearance(config);
+        case "win32":
+            return [{ backend: "registry", appearance: await detectWindowsAppearance(), detail: null }];
+        default:
+            return [];
+    }
+}
+
+function formatOSBackends(results: OSBackendResult[]): string {
+    if (results.length === 0) return "none";
+    return results
+        .map((result) => `${result.backend}:${result.appearance ?? "null"}${result.detail ? `(${result.detail})` : ""}`)
+        .join(", ");
+}
+
+async function detectOSAppearance(config: Config): Promise<Appearance | null> {
+    const results = await detectOSAppearanceWithTrace(config);
+    return results.find((result) => result.appearance)?.appearance ?? null;
+}
+
+/**
+ * Subscribe to the portal's SettingChanged signal (Linux) so OS-level
+ * appearance flips are applied without waiting for the next poll.
+ * `gdbus monitor` prints one line per signal, e.g.
+ *   …SettingChanged ('org.freedesktop.appearance', 'color-scheme', <uint32 1>)
+ */
+function watchPortalColorScheme(
+    onChange: (appearance: Appearance) => void,
+    status: { state: "off" | "active" | "unavailable" },
+): () => void {
+    if (process.platform !== "linux") {
+        status.state = "off";
+        return () => {};
+    }
+
+    const child = spawn("gdbus", ["monitor", "--session", "--dest", PORTAL_DEST, "--object-path", PORTAL_PATH], {
+        stdio: ["ignore", "pipe", "ignore"],
+    });
+    status.state = "active";
+    let buffer = "";
+    child.stdout!.setEncoding("utf8");
+    child.stdout!.on("data", (chunk: string) => {
+        buffer += chunk;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+            if (!line.includes("SettingChanged") || !line.includes("org.freedesktop.appearance")) continue;
+            if (!line.includes("color-scheme")) continue;
+            const appearance = portalValueToAppearance(parsePortalColorScheme(line));
+            if (appearance) onChange(appearance);
+        }
+    });
+    const onGone = () => {
+        if (status.state === "active") status.state = "unavailable";
+    };
+    child.on("error", onGone);
+    child.on("exit", onGone);
+    child.unref();
+
+    return () => {
+        status.state = "off";
+        child.kill();
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Strategy 5: User command (opt-in via config.strategies)
+//
+// Runs an executable and reads "dark" / "light" or a color (`#rrggbb`,
+// `rgb:…`) from the first line of its stdout. Colors go through the same
+// luminance bands as OSC 11 replies.
+// ---------------------------------------------------------------------------
+
+type CommandResult = { appearance: Appearance; rgb: null } | { appearance: null; rgb: Rgb };
+
+async function runAppearanceCommand(
+    command: string,
+    args: string[] | undefined,
+    timeoutMs: number,
+    signal?: AbortSignal,
+): Promise<CommandResult | null> {
+    const file = command.startsWith("~/") ? path.join(os.homedir(), command.slice(2)) : command;
+    const { stdout } = await execFileAsync(file, args ?? [], { timeout: timeoutMs, windowsHide: true, signal });
+    const firstLine = stdout.split("\n").find((line) => line.trim().length > 0) ?? "";
+    const value = normalizeSettingValue(firstLine);
+    if (value === "dark" || value === "light") return { appearance: value, rgb: null };
+    const rgb = parseTerminalColor(value);
+    return rgb ? { appearance: null, rgb } : null;
+}
+
+// ---------------------------------------------------------------------------
+// Strategy 6: Environment hints (zero I/O)
+//
+// Variables describing the terminal the session was started from:
+// `LC_PI_THEME_APPEARANCE` (dark/light) and `LC_PI_THEME_BACKGROUND` (a
+// color) pass through SSH's default `SendEnv LANG LC_*` with no server
+// changes; `COLORFGBG` ("fg;bg", set by rxvt, Konsole, iTerm2, ...) names
+// the background by ANSI index. They can't follow later changes, so they
+// rank after osc11 and os by default, and a live OSC 11 sample takes over
+// once one exists even when a config puts them first.
+// ---------------------------------------------------------------------------
+
+type EnvHint = {
+    /** Variable the hint came from. */
+    source: string;
+    value: string;
+    appearance: Appearance;
+    /** Set for color hints; classified through the luminance bands. */
+    rgb: Rgb | null;
+};
+
+/** ANSI background index → appearance, following vim's reading of COLORFGBG. */
+function parseColorFgBg(value: string): Appearance | null {
+    const bg = value.split(";").at(-1)?.trim() ?? "";
+    if (!/^\d+$/.test(bg)) return null;
+    const index = Number.parseInt(bg, 10);
+    if (index > 15) return null;
+    return index <= 6 || index === 8 ? "dark" : "light";
+}
+
+function readEnvHint(config: Config): EnvHint | null {
+    const appearance = normalizeSettingValue(process.env.LC_PI_THEME_APPEARANCE ?? "");
+    if (appearance === "dark" || appearance === "light") {
+        return { source: "LC_PI_THEME_APPEARANCE", value: appearance, appearance, rgb: null };
+    }
+
+    const background = process.env.LC_PI_THEME_BACKGROUND?.trim() ?? "";
+    const rgb = background ? parseTerminalColor(background) : null;
+    if (rgb) {
+        const bands = getBands(config);
+        const band = selectBand(relativeLuminance(rgb), bands, config.luminanceHysteresis, null);
+        return { source: "LC_PI_THEME_BACKGROUND", value: background, appearance: bands[band]!.appearance, rgb };
+    }
+
+    const colorFgBg = process.env.COLORFGBG?.trim() ?? "";
+    const fromColorFgBg = colorFgBg ? parseColorFgBg(colorFgBg) : null;
+    if (fromColorFgBg) return { source: "COLORFGBG", value: colorFgBg, appearance: fromColorFgBg, rgb: null };
+
+    return null;
+}
+
+function formatEnvHint(hint: EnvHint | null): string {
+    return hint ? `${hint.source}=${hint.value}(${hint.appearance})` : "none";
+}
+
+// ---------------------------------------------------------------------------
+// Strategy 7: Schedule (opt-in via config.strategies)
+//
+// Light between two fixed local times, or between sunrise and sunset
+// computed offline (sunrise equation, ±1–2 min) for a configured location.
+// For hosts with no terminal or OS signal at all. The next transition is
+// known in advance, so the extension wakes up exactly then.
+// ---------------------------------------------------------------------------
+
+type ScheduleState = {
+    appearance: Appearance;
+    /** Epoch ms of the next flip; `null` during polar day/night. */
+    nextTransitionAt: number | null;
+};
+
+const J2000 = 2451545.0;
+const UNIX_EPOCH_JULIAN = 2440587.5;
+const MS_PER_DAY = 86_400_000;
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+/** Sunrise/sunset (epoch ms) for the solar day `day` (days since J2000), or the polar state. */
+function solarEvents(day: number, latitude: number, longitude: number): [number, number] | Appearance {
+    const meanSolarTime = day - longitude / 360;
+    const anomaly = (357.5291 + 0.98560028 * meanSolarTime) % 360;
+    const m = toRadians(anomaly);
+    const center = 1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m);
+    const eclipticLongitude = toRadians((anomaly + center + 180 + 102.9372) % 360);
+    const transit = J2000 + meanSolarTime + 0.0053 * Math.sin(m) - 0.0069 * Math.sin(2 * eclipticLongitude);
+    const declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(toRadians(23.4397)));
+    const phi = toRadians(latitude);
+    const cosHourAngle =
+        (Math.sin(toRadians(-0.833)) - Math.sin(phi) * Math.sin(declination)) / (Math.cos(phi) * Math.cos(declination));
+    if (cosHourAngle > 1) return "dark";
+    if (cosHourAngle < -1) return "light";
+    const halfDay = toDegrees(Math.acos(cosHourAngle)) / 360;
+    const toMs = (julian: number): number => (julian - UNIX_EPOCH_JULIAN) * MS_PER_DAY;
+    return [toMs(transit - halfDay), toMs(transit + halfDay)];
+}
+
+function evaluateSchedule(schedule: Schedule, now: number): ScheduleState {
+    if (schedule.kind === "fixed") {
+        const date = new Date(now);
+        const minute = date.getHours() * 60 + date.getMinutes();
+        const { lightFrom, lightUntil } = schedule;
+        const light = lightFrom < lightUntil
+            ? minute >= lightFrom && minute < lightUntil
+            : minute >= lightFrom || minute < lightUntil;
+        const boundary = light ? lightUntil : lightFrom;
+        const next = new Date(now);
+        next.setHours(Math.floor(boundary / 60), boundary % 60, 0, 0);
+        if (next.getTime() <= now) next.setDate(next.getDate() + 1);
+        return { appearance: light ? "light" : "dark", nextTransitionAt: next.getTime() };
+    }
+
+    const today = Math.round(now / MS_PER_DAY + UNIX_EPOCH_JULIAN - J2000);
+    const transitions: { at: number; appearance: Appearance }[] = [];
+    let polar: Appearance | null = null;
+    for (const day of [today - 1, today, today + 1, today + 2]) {
+        const events = solarEvents(day, schedule.latitude, schedule.longitude);
+        if (typeof events === "string") {
+            if (day === today) polar = events;
+            continue;
+        }
+        transitions.push({ at: events[0], appearance: "light" }, { at: events[1], appearance: "dark" });
+    }
+    transitions.sort((a, b) => a.at - b.at);
+    const last = transitions.filter((transition) => transition.at <= now).at(-1);
+    const appearance = polar ?? last?.appearance ?? "dark";
+    const next = transitions.find((transition) => transition.at > now && transition.appearance !== appearance);
+    return { appearance, nextTransitionAt: next?.at ?? null };
+}
+
+/** Earliest upcoming flip across the enabled schedule strategies. */
+function nextScheduleTransition(config: Config, now: number): number | null {
+    let earliest: number | null = null;
+    for (const spec of config.strategies) {
+        if (spec.id !== "schedule" || !spec.enabled || !spec.schedule) continue;
+        const next = evaluateSchedule(spec.schedule, now).nextTransitionAt;
+        if (next !== null && (earliest === null || next < earliest)) earliest = next;
+    }
+    return earliest;
+}
+
+function formatSchedules(config: Config, now: number): string {
+    const specs = config.strategies.filter((spec) => spec.id === "schedule" && spec.schedule);
+    if (specs.length === 0) return "none";
+    return specs
+        .map((spec) => {
+            const state = evaluateSchedule(spec.schedule!, now);
+            const next = state.nextTransitionAt === null ? "no transition" : new Date(state.nextTransitionAt).toISOString();
+            return `${spec.label}:${state.appearance} until ${next}`;
+        })
+        .join(", ");
+}
+
+// ---------------------------------------------------------------------------
+// Remote session detection
+//
+// "Remote" means pi isn't running on the machine whose desktop the user is
+// looking at, so that machine's OS appearance says nothing (auto OS fallback
+// turns off, `remote` theme rules match). SSH_* variables alone go stale in
+// reattached tmux/screen sessions and are missing under mosh, `docker exec`
+// and in containers, so several signals are checked, strongest first.
+// ---------------------------------------------------------------------------
+
+type RemoteVerdict = {
+    remote: boolean;
+    /** The signal that decided it. */
+    reason: string;
+    /** Everything that was checked, decisive or not. */
+    signals: string[];
+};
+
+/** Parents that mean the session came in over the network. */
+const REMOTE_ANCESTORS = new Set(["sshd", "sshd-session", "mosh-server", "dropbear"]);
+const MAX_ANCESTRY_DEPTH = 32;
+
+function hasSshEnvironment(): boolean {
+    return Boolean(process.env.SSH_CONNECTION || process.env.SSH_CLIENT || process.env.SSH_TTY);
+}
+
+async function readParentProcess(pid: number): Promise<{ ppid: number; name: string } | null> {
+    try {
+        // /proc/<pid>/stat: "pid (comm) state ppid ..."; comm may itself contain ") ".
+        const stat = await readFile(`/proc/${pid}/stat`, "utf8");
+        const end = stat.lastIndexOf(")");
+        const name = stat.slice(stat.indexOf("(") + 1, end);
+        const ppid = Number.parseInt(stat.slice(end + 2).split(" ")[1] ?? "", 10);
+        return Number.isFinite(ppid) ? { ppid, name } : null;
+    } catch {
+        // no procfs (macOS, BSD)
+    }
+    try {
+        const { stdout } = await execFileAsync("ps", ["-o", "ppid=,comm=", "-p", String(pid)], { timeout: DETECTION_TIMEOUT_MS });
+        const match = stdout.trim().match(/^(\d+)\s+(.+)$/);
+        return match ? { ppid: Number(match[1]), name: path.basename(match[2]!) } : null;
+    } catch {
+        return null;
+    }
+}
+
+async function findRemoteAncestor(): Promise<{ pid: number; name: string } | null> {
+    let pid = process.ppid;
+    for (let depth = 0; depth < MAX_ANCESTRY_DEPTH && pid > 1; depth += 1) {
+        const parent = await readParentProcess(pid);
+        if (!parent) return null;
+        if (REMOTE_ANCESTORS.has(parent.name)) return { pid, name: parent.name };
+        pid = parent.ppid;
+    }
+    return null;
+}
+
+async function detectContainer(): Promise<string | null> {
+    const exists = (file: string) => stat(file).then(() => true, () => false);
+    if (await exists("/.dockerenv")) return "docker";
+    if (await exists("/run/.containerenv")) return "podman";
+    if (process.env.container) return process.env.container;
+    if (process.env.KUBERNETES_SERVICE_HOST) return "kubernetes";
+    const cgroup = await readFile("/proc/1/cgroup", "utf8").catch(() => "");
+    return cgroup.match(/\b(docker|kubepods|containerd|lxc)\b/)?.[1] ?? null;
+}
+
+/** Login host recorded for a tty (`who`): an address for SSH logins, `:0` for a local display. */
+async function readTtyLoginHost(tty: string): Promise<string | null> {
+    const line = tty.replace(/^\/dev\//, "");
+    try {
+        const { stdout } = await execFileAsync("who", [], { timeout: DETECTION_TIMEOUT_MS });
+        for (const entry of stdout.split("\n")) {
+            const fields = entry.trim().split(/\s+/);
+            if (fields[1] !== line) continue;
+            return entry.match(/\(([^)]*)\)\s*$/)?.[1] ?? null;
+        }
+    } catch {
+        // `who` missing or utmp unreadable
+    }
+    return null;
+}
+
+/**
+ * Weigh everything we can see. Each check adds to `signals`; the first
+ * decisive one sets the verdict. Inside tmux, the client's tty and the
+ * session environment describe the terminal in front of the user, while
+ * the pane's own SSH_* variables describe whoever started the server.
+ */
+async function detectRemoteSession(setting: RemoteSetting, tmux: TmuxClient | null): Promise<RemoteVerdict> {
+    const signals: string[] = [];
+    let decided: { remote: boolean; reason: string } | null = null;
+    const decide = (remote: boolean, reason: string) => {
+        signals.push(reason);
+        decided ??= { remote, reason };
+    };
+
+    if (setting !== "auto") decide(setting === "remote", `config:${setting}`);
+
+    // A container alone says nothing: dev containers run on the desk too.
+    // It only counts as remote together with one of the network signals below.
+    const container = await detectContainer();
+    if (container) signals.push(`container:${container}`);
+
+    // Inside tmux the ancestry ends at the tmux server, which says nothing about the client.
+    const ancestor = await findRemoteAncestor();
+    if (ancestor) decide(true, `ancestor:${ancestor.name}(${ancestor.pid})`);
+
+    const tty = tmux?.clientTty ?? (await getProcessTty());
+    const loginHost = tty ? await readTtyLoginHost(tty) : null;
+    if (loginHost) {
+        if (/^:\d/.test(loginHost) || loginHost.startsWith("tmux(")) signals.push(`tty:${tty} local(${loginHost})`);
+        else decide(true, `tty:${tty} from ${loginHost}`);
+    }
+
+    if (tmux?.sshConnectionScope === "session" || tmux?.sshConnectionScope === "global") {
+        decide(true, `tmux-env:SSH_CONNECTION(${tmux.sshConnectionScope})`);
+    } else if (tmux?.sshConnectionScope === "removed") {
+        decide(false, "tmux-env:SSH_CONNECTION removed on attach");
+    }
+
+    if (hasSshEnvironment()) {
+        if (process.env.TMUX || process.env.STY) signals.push("env:SSH_* (inherited by tmux/screen, ignored)");
+        else decide(true, "env:SSH_*");
+    }
+
+    const verdict = decided ?? { remote: false, reason: "no remote signal" };
+    return { ...verdict, signals };
+}
+
+function formatRemoteVerdict(verdict: RemoteVerdict | null): string {
+    if (!verdict) return `${isLikelyRemoteSession(null) ? "remote" : "local"} (env only)`;
+    const others = verdict.signals.filter((signal) => signal !== verdict.reason);
+    return `${verdict.remote ? "remote" : "local"} (${verdict.reason})${others.length > 0 ? ` also: ${others.join(", ")}` : ""}`;
+}
+
+// ---------------------------------------------------------------------------
+// Detection pipeline
+//
+// Each strategy is a self-contained function; config.strategies decides
+// which ones run and in what order (default: override → color-scheme →
+// osc11 → os → env → osc11-cache). The first one to produce an appearance wins,
+// and every step is recorded in the trace.
+// ---------------------------------------------------------------------------
+
+type Osc11State = {
+    lastCheckedAt: number;
+    lastAppearance: Appearance | null;
+    lastBand: number | null;
+    failures: number;
+    disabledUntil: number;
+    /** Inside tmux: whether queries currently go out plain or wrapped in DCS passthrough. */
+    tmuxMode: TmuxProbeMode;
+};
+
+function isOsc11Enabled(): boolean {
+    const raw = String(process.env.PI_THEME_SYNC_OSC11_ENABLED ?? "1").trim().toLowerCase();
+    return raw !== "0" && raw !== "false" && raw !== "off";
+}
+
+function getOsc11MinIntervalMs(profile: TerminalProfile = DEFAULT_TERMINAL_PROFILE): number {
+    const raw = process.env.PI_THEME_SYNC_OSC11_MIN_INTERVAL_MS;
+    if (!raw) return profile.minIntervalMs;
+    const parsed = Number.parseInt(raw, 10);
+    if (!Number.isFinite(parsed)) return profile.minIntervalMs;
+    return Math.max(1000, parsed);
+}
+
+function isOSFallbackEnabled(remote: RemoteVerdict | null = null): boolean {
+    const raw = String(process.env.PI_THEME_SYNC_OS_FALLBACK ?? "auto").trim().toLowerCase();
+    if (raw === "1" || raw === "true" || raw === "on") return true;
+    if (raw === "0" || raw === "false" || raw === "off") return false;
+    // auto: use OS fallback locally for stability; avoid remote host OS mismatch.
+    return !isLikelyRemoteSession(remote);
+}
+
+/** The detected verdict when there is one; otherwise just the SSH_* variables. */
+function isLikelyRemoteSession(remote: RemoteVerdict | null = null): boolean {
+    return remote ? remote.remote : hasSshEnvironment();
+}
+
+function allowBackgroundOsc11(profile: TerminalProfile = DEFAULT_TERMINAL_PROFILE): boolean {
+    const raw = String(process.env.PI_THEME_SYNC_BACKGROUND_OSC11 ?? "auto").trim().toLowerCase();
+    if (raw === "0" || raw === "false" || raw === "off") return false;
+    if (raw === "1" || raw === "true" || raw === "on") return true;
+    // auto: background probes wait until pi is idle and are cancelled on
+    // input, so late replies over SSH no longer land in the editor. Only
+    // terminals that never answer are left alone.
+    return profile.backgroundProbe;
+}
+
+type ResolveOptions = {
+    allowOsc11?: boolean;
+    forceOsc11?: boolean;
+    allowOsc11Cache?: boolean;
+    /** Latest payload per source received by the push listener; competes with the override files. */
+    pushedOverrides?: OverridePayload[];
+    /** Replay marks for signed overrides; without it every read starts from scratch. */
+    overrideAuth?: OverrideAuthState;
+    /** Mode 2031 subscription; when active, its last report replaces OSC 11 probing. */
+    colorScheme?: ColorSchemeState;
+    /** Long-lived probe helper; without it each probe spawns a one-shot process. */
+    osc11Helper?: Osc11Helper | null;
+    /** Aborted when input arrives mid-probe; how one-shot probes get cancelled (the helper is cancelled directly). */
+    probeSignal?: AbortSignal;
+    /** Only consult environment hints; used to theme the first frame before any probe. */
+    hintsOnly?: boolean;
+    /** Why a background probe must wait (agent streaming, user typing); forced probes ignore it. */
+    deferOsc11?: string | null;
+    /** Leader election among instances sharing this terminal; followers read the leader's sample. */
+    probeCoordinator?: ProbeCoordinator | null;
+    /** Active tmux client, when running inside tmux. */
+    tmux?: TmuxClient | null;
+    /** Remote-session verdict from the last detectRemoteSession run. */
+    remote?: RemoteVerdict | null;
+    /** Quirks of the identified terminal; the default profile when unset. */
+    terminalProfile?: TerminalProfile;
+};
+
+type DetectionTrace = {
+    chosen: StrategyId | "none";
+    /** Label of the chosen strategy (differs from `chosen` for named command strategies). */
+    chosenLabel: string | null;
+    appearance: Appearance | null;
+    /** Index into getBands(config) when the decision came from a measured luminance. */
+    band: number | null;
+    /** One entry per configured strategy, in pipeline order. */
+    steps: StrategyStep[];
+    override: Appearance | "auto" | null;
+    overrideSource: "listener" | "file" | null;
+    /** Newest entry per source, live or not; the winner is in `overrideEntry`. */
+    overrideEntries: OverrideEntry[];
+    overrideEntry: OverrideEntry | null;
+    /** Payloads dropped by signature or replay checks (only when overrideKey is set). */
+    overrideRejected: OverrideRejection[];
+    colorSchemeStatus: ColorSchemeState["status"];
+    colorSchemeResult: Appearance | null;
+    envHint: EnvHint | null;
+    osc11Enabled: boolean;
+    osc11Attempted: boolean;
+    osc11Result: Appearance | null;
+    osc11LatencyMs: number | null;
+    osc11Rgb: Rgb | null;
+    osc11Luminance: number | null;
+    osc11UsedCache: boolean;
+    osc11SkipReason: string | null;
+    osc11Failures: number;
+    /** Sample published by the probe leader, when this instance is following. */
+    osc11Shared: SharedSample | null;
+    osResult: Appearance | null;
+    osBackends: OSBackendResult[];
+};
+
+type StrategyStep = {
+    id: StrategyId;
+    label: string;
+    status: "chosen" | "miss" | "skipped" | "disabled" | "timeout" | "error" | "not-reached";
+    appearance: Appearance | null;
+    detail: string | null;
+    durationMs: number;
+};
+
+type StrategyInput = {
+    config: Config;
+    osc11State: Osc11State;
+    options: ResolveOptions;
+    trace: DetectionTrace;
+    spec: StrategySpec;
+    /** Aborted when the step's timeoutMs runs out; a late result must not touch shared state. */
+    signal: AbortSignal;
+};
+
+/** `skipped` means the strategy chose not to run (policy, throttling); a miss ran and found nothing. */
+type StrategyOutcome = {
+    appearance: Appearance | null;
+    band?: number | null;
+    detail?: string | null;
+    skipped?: boolean;
+};
+
+async function runOverrideStrategy({ config, options, trace }: StrategyInput): Promise<StrategyOutcome> {
+    const pushed = (options.pushedOverrides ?? []).map((payload) =>
+        toOverrideEntry(payload, "listener", "listener", config.overrideMaxAgeMs),
+    );
+    const entries = authenticateOverrides(
+        [...pushed, ...(await readOverrideEntries(config.overrideFile, config.overrideMaxAgeMs))],
+        config.overrideKey,
+        options.overrideAuth ?? { accepted: new Map() },
+        trace.overrideRejected,
+    );
+    const winner = selectOverride(entries, Date.now());
+    trace.overrideEntries = entries;
+    trace.overrideEntry = winner;
+    trace.overrideSource = winner?.origin ?? null;
+    if (winner && winner.payload.appearance !== "auto") {
+        trace.override = winner.payload.appearance;
+        return { appearance: winner.payload.appearance, detail: `${winner.origin}:${winner.source}` };
+    }
+    trace.override = entries.some((entry) => entry.payload.appearance === "auto") ? "auto" : null;
+    return { appearance: null, detail: trace.override ?? "none" };
+}
+
+async function runColorSchemeStrategy({ trace }: StrategyInput): Promise<StrategyOutcome> {
+    if (trace.colorSchemeStatus === "active" && trace.colorSchemeResult) {
+        return { appearance: trace.colorSchemeResult };
+    }
+    return { appearance: null, skipped: trace.colorSchemeStatus !== "active", detail: trace.colorSchemeStatus };
+}
+
+async function runEnvStrategy({ config, osc11State, options, trace }: StrategyInput): Promise<StrategyOutcome> {
+    trace.envHint = readEnvHint(config);
+    if (!trace.envHint) return { appearance: null, detail: "none" };
+    // Hints describe the terminal at launch; a live sample is more current.
+    const forced = options.forceOsc11 === true && trace.osc11Enabled;
+    if (forced || osc11State.lastAppearance) {
+        return { appearance: null, skipped: true, detail: forced ? "osc11-forced" : "superseded:osc11" };
+    }
+    if (!trace.envHint.rgb) return { appearance: trace.envHint.appearance, detail: trace.envHint.source };
+
+    const bands = getBands(config);
+    const band = selectBand(relativeLuminance(trace.envHint.rgb), bands, config.luminanceHysteresis, null);
+    return { appearance: bands[band]!.appearance, band, detail: trace.envHint.source };
+}
+
+/** Classify a measured background and remember it as the latest OSC 11 answer. */
+function applyOsc11Rgb(config: Config, osc11State: Osc11State, trace: DetectionTrace, rgb: Rgb): StrategyOutcome {
+    const luminance = relativeLuminance(rgb);
+    const bands = getBands(config);
+    const band = selectBand(luminance, bands, config.luminanceHysteresis, osc11State.lastBand);
+    const fromTerminal = bands[band]!.appearance;
+    osc11State.lastBand = band;
+    osc11State.lastAppearance = fromTerminal;
+    osc11State.failures = 0;
+    trace.osc11Rgb = rgb;
+    trace.osc11Luminance = luminance;
+    trace.osc11Result = fromTerminal;
+    trace.osc11Failures = 0;
+    return { appearance: fromTerminal, band, detail: formatRgb(rgb) };
+}
+
+async function runOsc11Strategy({ config, osc11State, options, trace, signal }: StrategyInput): Promise<StrategyOutcome> {
+    const forceOsc11 = options.forceOsc11 === true;
+    const allowOsc11 = forceOsc11 || options.allowOsc11 === true;
+
+    if (!trace.osc11Enabled || !allowOsc11) {
+        trace.osc11SkipReason = trace.osc11Enabled ? "disabled-by-mode" : "disabled";
+        return { appearance: null, skipped: true, detail: trace.osc11SkipReason };
+    }
+
+    const profile = options.terminalProfile ?? DEFAULT_TERMINAL_PROFILE;
+    // Reading the leader's sample doesn't touch the tty, so followers don't defer it.
+    const coordinator = options.probeCoordinator ?? null;
+    if (coordinator && !(await coordinator.claim())) {
+        const shared = await coordinator.readShared();
+        // A forced probe (refresh, session start) only accepts a sample that is about as fresh as its own would be.
+        const maxAgeMs = forceOsc11 ? getOsc11MinIntervalMs(profile) : SHARED_SAMPLE_MAX_AGE_MS;
+        if (shared && Date.now() - shared.sampledAt <= maxAgeMs) {
+            trace.osc11Shared = shared;
+            return { ...applyOsc11Rgb(config, osc11State, trace, shared.rgb), detail: `shared:${formatRgb(shared.rgb)}` };
+        }
+        if (!forceOsc11) {
+            trace.osc11SkipReason = shared ? "follower:stale-sample" : "follower:no-sample";
+            return { appearance: null, skipped: true, detail: trace.osc11SkipReason };
+        }
+    }
+
+    if (options.deferOsc11 && !forceOsc11) {
+        trace.osc11SkipReason = `deferred:${options.deferOsc11}`;
+        return { appearance: null, skipped: true, detail: trace.osc11SkipReason };
+    }
+
+    const now = Date.now();
+    const minIntervalMs = getOsc11MinIntervalMs(profile);
+    const canProbe = now >= osc11State.disabledUntil && (forceOsc11 || now - osc11State.lastCheckedAt >= minIntervalMs);
+
+    if (!canProbe) {
+        trace.osc11SkipReason = now < osc11State.disabledUntil
+            ? `cooldown-until:${new Date(osc11State.disabledUntil).toISOString()}`
+            : `throttled:${minIntervalMs}`;
+        return { appearance: null, skipped: true, detail: trace.osc11SkipReason };
+    }
+
+    trace.osc11Attempted = true;
+    const previousCheckAt = osc11State.lastCheckedAt;
+    osc11State.lastCheckedAt = now;
+    const tmux = options.tmux ?? null;
+    const mode = chooseTmuxProbeMode(tmux, osc11State.tmuxMode);
+    // Either the step timing out or input arriving stops the query.
+    const probe = new AbortController();
+    const stopProbe = () => probe.abort();
+    signal.addEventListener("abort", stopProbe, { once: true });
+    options.probeSignal?.addEventListener("abort", stopProbe, { once: true });
+    let sample: Osc11Sample | "cancelled" | null;
+    try {
+        sample = await queryTerminalBackground(options.osc11Helper, toProbeOptions(profile, mode), probe.signal);
+    } finally {
+        signal.removeEventListener("abort", stopProbe);
+        options.probeSignal?.removeEventListener("abort", stopProbe);
+    }
+    if (signal.aborted) {
+        // The pipeline already moved on; a late sample would race the next tick.
+        osc11State.lastCheckedAt = previousCheckAt;
+        return { appearance: null, skipped: true, detail: "timed out" };
+    }
+    if (sample === "cancelled") {
+        // Input arrived mid-probe: not the terminal's fault, so no failure and no throttle.
+        osc11State.lastCheckedAt = previousCheckAt;
+        trace.osc11SkipReason = "cancelled:input";
+        return { appearance: null, skipped: true, detail: trace.osc11SkipReason };
+    }
+    if (sample) {
+        trace.osc11LatencyMs = sample.latencyMs;
+        await coordinator?.publish(sample.rgb);
+        return applyOsc11Rgb(config, osc11State, trace, sample.rgb);
+    }
+
+    // tmux either answers plain queries itself or needs passthrough; try the other way next time.
+    if (tmux && tmux.passthroughAllowed && getTmuxPassthroughSetting() === "auto") {
+        osc11State.tmuxMode = mode === "plain" ? "passthrough" : "plain";
+    }
+    osc11State.failures += 1;
+    trace.osc11Failures = osc11State.failures;
+    if (osc11State.failures >= profile.disableAfterFailures) {
+        osc11State.disabledUntil = now + OSC11_DISABLE_COOLDOWN_MS;
+        osc11State.failures = 0;
+        trace.osc11Failures = 0;
+        trace.osc11SkipReason = `cooldown:${OSC11_DISABLE_COOLDOWN_MS}`;
+    }
+    return { appearance: null, detail: "no reply" };
+}
+
+async function runOSStrategy({ config, options, trace, signal }: StrategyInput): Promise<StrategyOutcome> {
+    if (!isOSFallbackEnabled(options.remote)) return { appearance: null, skipped: true, detail: "disabled-by-mode" };
+    const backends = await detectOSAppearanceWithTrace(config);
+    if (signal.aborted) return { appearance: null, skipped: true, detail: "timed out" };
+    const answered = backends.find((result) => result.appearance);
+    trace.osBackends = backends;
+    trace.osResult = answered?.appearance ?? null;
+    return { appearance: trace.osResult, detail: answered?.backend ?? null };
+}
+
+async function runOsc11CacheStrategy({ osc11State, options, trace }: StrategyInput): Promise<StrategyOutcome> {
+    // A deferred, cancelled or leader-owned probe leaves the last sample as the best answer.
+    const probeHeldBack =
+        Boolean(options.deferOsc11) ||
+        trace.osc11SkipReason === "cancelled:input" ||
+        (trace.osc11SkipReason?.startsWith("follower:") ?? false);
+    if (options.allowOsc11Cache === false && !probeHeldBack) return { appearance: null, skipped: true, detail: "disabled-by-mode" };
+    if (!osc11State.lastAppearance) return { appearance: null, detail: "empty" };
+    trace.osc11UsedCache = true;
+    return { appearance: osc11State.lastAppearance, band: osc11State.lastBand };
+}
+
+async function runCommandStrategy({ config, spec, signal }: StrategyInput): Promise<StrategyOutcome> {
+    if (!spec.command) return { appearance: null, skipped: true, detail: "no command configured" };
+    const result = await runAppearanceCommand(spec.command, spec.args, spec.timeoutMs ?? DETECTION_TIMEOUT_MS, signal);
+    if (!result) return { appearance: null, detail: "no usable output" };
+    if (!result.rgb) return { appearance: result.appearance };
+
+    const bands = getBands(config);
+    const band = selectBand(relativeLuminance(result.rgb), bands, config.luminanceHysteresis, null);
+    return { appearance: bands[band]!.appearance, band, detail: formatRgb(result.rgb) };
+}
+
+async function runScheduleStrategy({ spec }: StrategyInput): Promise<StrategyOutcome> {
+    if (!spec.schedule) return { appearance: null, skipped: true, detail: "no schedule configured" };
+    const state = evaluateSchedule(spec.schedule, Date.now());
+    return { appearance: state.appearance, detail: spec.schedule.kind };
+}
+
+const STRATEGIES: Record<StrategyId, (input: StrategyInput) => Promise<StrategyOutcome>> = {
+    override: runOverrideStrategy,
+    "color-scheme": runColorSchemeStrategy,
+    env: runEnvStrategy,
+    osc11: runOsc11Strategy,
+    os: runOSStrategy,
+    command: runCommandStrategy,
+    schedule: runScheduleStrategy,
+    "osc11-cache": runOsc11CacheStrategy,
+};
+
+const STRATEGY_TIMED_OUT = Symbol("timeout");
+
+/** Race a step against its timeoutMs; on timeout `controller` is aborted so the step stops or drops its result. */
+function withTimeout<T>(
+    promise: Promise<T>,
+    timeoutMs: number | null,
+    controller: AbortController,
+): Promise<T | typeof STRATEGY_TIMED_OUT> {
+    if (timeoutMs === null) return promise;
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            controller.abort();
+            resolve(STRATEGY_TIMED_OUT);
+        }, timeoutMs);
+        promise.then(
+            (value) => {
+                clearTimeout(timer);
+                resolve(value);
+            },
+            (error: unknown) => {
+                clearTimeout(timer);
+                reject(error);
+            },
+        );
+    });
+}
+
+async function resolveAppearanceWithTrace(
+    config: Config,
+    osc11State: Osc11State,
+    options: ResolveOptions = {},
+): Promise<DetectionTrace> {
+    const trace: DetectionTrace = {
+        chosen: "none",
+        chosenLabel: null,
+        appearance: null,
+        band: null,
+        steps: [],
+        override: null,
+        overrideSource: null,
+        overrideEntries: [],
+        overrideEntry: null,
+        overrideRejected: [],
+        colorSchemeStatus: options.colorScheme?.status ?? "off",
+        colorSchemeResult: options.colorScheme?.appearance ?? null,
+        envHint: null,
+        osc11Enabled: isOsc11Enabled(),
+        osc11Attempted: false,
+        osc11Result: null,
+        osc11LatencyMs: null,
+        osc11Rgb: null,
+        osc11Luminance: null,
+        osc11UsedCache: false,
+        osc11SkipReason: null,
+        osc11Shared: null,
+        osc11Failures: osc11State.failures,
+        osResult: null,
+        osBackends: [],
+    };
+
+    for (const spec of config.strategies) {
+        const step: StrategyStep = {
+            id: spec.id,
+            label: spec.label,
+            status: "not-reached",
+            appearance: null,
+            detail: null,
+            durationMs: 0,
+        };
+        trace.steps.push(step);
+        if (trace.chosen !== "none") continue;
+        if (!spec.enabled) {
+            step.status = "disabled";
+            continue;
+        }
+        if (options.hintsOnly && spec.id !== "env") {
+            step.status = "skipped";
+            step.detail = "hints-only";
+            continue;
+        }
+
+        const startedAt = Date.now();
+        const controller = new AbortController();
+        try {
+            const outcome = await withTimeout(
+                STRATEGIES[spec.id]({ config, osc11State, options, trace, spec, signal: controller.signal }),
+                spec.timeoutMs,
+                controller,
+            );
+            if (outcome === STRATEGY_TIMED_OUT) {
+                step.status = "timeout";
+                step.detail = `${spec.timeoutMs}ms`;
+            } else {
+                step.appearance = outcome.appearance;
+                step.detail = outcome.detail ?? null;
+                step.status = outcome.appearance ? "chosen" : outcome.skipped ? "skipped" : "miss";
+                if (outcome.appearance) {
+                    trace.chosen = spec.id;
+                    trace.chosenLabel = spec.label;
+                    trace.appearance = outcome.appearance;
+                    trace.band = outcome.band ?? null;
+                }
+            }
+        } catch (error) {
+            step.status = "error";
+            step.detail = error instanceof Error ? error.message : String(error);
+        }
+        step.durationMs = Date.now() - startedAt;
+    }
+
+    return trace;
+}
+
+function formatSteps(steps: StrategyStep[]): string {
+    return steps
+        .map((step) => {
+            const ran = step.status !== "not-reached" && step.status !== "disabled";
+            const parts = [step.appearance, step.detail, ran ? `${step.durationMs}ms` : null].filter(
+                (part): part is string => Boolean(part),
+            );
+            return `${step.label}:${step.status}${parts.length > 0 ? `(${parts.join(", ")})` : ""}`;
+        })
+        .join(" → ");
+}
+
+// ---------------------------------------------------------------------------
+// Theme rules
+//
+// `rules` picks a theme from where the session runs rather than from the
+// detected background alone — e.g. a tinted variant on remote boxes so it's
+// obvious where the agent is acting. Rules are checked in order after
+// detection; without a match the bands / darkTheme / lightTheme apply.
+// ---------------------------------------------------------------------------
+
+type RuleEnvironment = {
+    host: string;
+    remote: boolean;
+    termProgram: string | null;
+    term: string | null;
+    tmux: boolean;
+};
+
+function getRuleEnvironment(tmux: TmuxClient | null, remote: RemoteVerdict | null): RuleEnvironment {
+    return {
+        host: os.hostname(),
+        remote: isLikelyRemoteSession(remote),
+        termProgram: process.env.TERM_PROGRAM?.trim() || null,
+        // Inside tmux, TERM is tmux's own; the client's terminal type is the interesting one.
+        term: tmux?.clientTermName || process.env.TERM?.trim() || null,
+        tmux: Boolean(process.env.TMUX),
+    };
+}
+
+function matchesPattern(pattern: string, value: string | null): boolean {
+    if (value === null) return false;
+    const source = pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+    return new RegExp(`^${source}$`, "i").test(value);
+}
+
+function matchThemeRule(rules: ThemeRule[], appearance: Appearance, env: RuleEnvironment): ThemeRule | null {
+    return (
+        rules.find(
+            (rule) =>
+                (rule.appearance === null || rule.appearance === appearance) &&
+                (rule.remote === null || rule.remote === env.remote) &&
+                (rule.tmux === null || rule.tmux === env.tmux) &&
+                (rule.host === null || matchesPattern(rule.host, env.host)) &&
+                (rule.termProgram === null || matchesPattern(rule.termProgram, env.termProgram)) &&
+                (rule.term === null || matchesPattern(rule.term, env.term)),
+        ) ?? null
+    );
+}
+
+function formatRuleEnvironment(env: RuleEnvironment): string {
+    return `host=${env.host} remote=${env.remote} termProgram=${env.termProgram ?? "none"} term=${env.term ?? "none"} tmux=${env.tmux}`;
+}
+
+// ---------------------------------------------------------------------------
+// Adaptive polling
+//
+// Polls at `pollMs` for a short window after session start or a detected
+// change, then doubles the interval on every stable poll up to
+// POLL_BACKOFF_MAX_MS. Fewer polls means less /dev/tty traffic during long
+// stretches where nothing changes; switches tend to cluster (a terminal
+// toggling auto theme, someone experimenting), and those stay fast.
+// ---------------------------------------------------------------------------
+
+type PollState = {
+    intervalMs: number;
+    /** Poll at the base rate until this time. */
+    boostUntil: number;
+    /** Theme applied as of the previous poll, to notice changes from any source. */
+    lastTheme: string | null;
+    nextAt: number | null;
+};
+
+function advancePollInterval(
+    state: PollState,
+    config: Config,
+    osc11State: Osc11State,
+    profile: TerminalProfile,
+    changed: boolean,
+    now: number,
+): number {
+    if (changed) state.boostUntil = now + POLL_BOOST_WINDOW_MS;
+    state.intervalMs = now < state.boostUntil
+        ? config.pollMs
+        : Math.min(Math.max(config.pollMs, POLL_BACKOFF_MAX_MS), state.intervalMs * 2);
+
+    let delay = state.intervalMs;
+    // Probing faster than the OSC 11 throttle or during its cooldown only re-reads cached sources.
+    if (isOsc11Enabled() && allowBackgroundOsc11(profile)) delay = Math.max(delay, getOsc11MinIntervalMs(profile));
+    if (osc11State.disabledUntil > now) delay = Math.max(delay, osc11State.disabledUntil - now);
+    state.nextAt = now + delay;
+    return delay;
+}
+
+function formatPollState(state: PollState, now: number): string {
+    if (state.nextAt === null) return "off";
+    const mode = now < state.boostUntil ? "boost" : "backoff";
+    return `${state.intervalMs}ms (${mode}, next in ${Math.max(0, state.nextAt - now)}ms)`;
 }
 
 // ---------------------------------------------------------------------------
-// Unified detection: override file → terminal query → OS detection
+// Detection history
+//
+// Every tick (plus /system-theme-refresh and /system-theme-debug) records
+// what the pipeline saw and what was applied, so an unexpected flip can be
+// explained after the fact. Kept in memory (the last HISTORY_SIZE);
+// optionally appended to a JSONL file (PI_THEME_SYNC_HISTORY_LOG) that
+// rotates at HISTORY_LOG_MAX_BYTES. The file skips polls and wake-ups that
+// repeat the previous record's result, so an idle session doesn't fill it.
 // ---------------------------------------------------------------------------
 
-type Osc11State = {
-    lastCheckedAt: number;
-    lastAppearance: Appearance | null;
-    failures: number;
-    disabledUntil: number;
+type HistoryEntry = {
+    at: string;
+    /** What ran the detection: poll, event, session-start, refresh, debug, ... */
+    trigger: string;
+    chosen: string;
+    appearance: Appearance | null;
+    band: number | null;
+    osc11Rgb: string | null;
+    osc11LatencyMs: number | null;
+    steps: string;
+    theme: string | null;
+    outcome: "applied" | "unchanged" | "undetected" | "failed" | "probe-only";
+    error?: string;
 };
 
-function isOsc11Enabled(): boolean {
-    const raw = String(process.env.PI_THEME_SYNC_OSC11_ENABLED ?? "1").trim().toLowerCase();
-    return raw !== "0" && raw !== "false" && raw !== "off";
+/** Triggers that fire on their own; they would flood the log file with identical records. */
+const BACKGROUND_HISTORY_TRIGGERS: ReadonlySet<string> = new Set(["poll", "event"]);
+
+/** What makes two records "the same" for collapsing background repeats; a no-op tick matches the apply before it. */
+function historyKey(entry: HistoryEntry): string {
+    const outcome = entry.outcome === "unchanged" ? "applied" : entry.outcome;
+    return [entry.chosen, entry.appearance, entry.band, entry.theme, outcome, entry.error ?? ""].join("|");
 }
 
-function getOsc11MinIntervalMs(): number {
-    const raw = process.env.PI_THEME_SYNC_OSC11_MIN_INTERVAL_MS;
-    if (!raw) return OSC11_MIN_INTERVAL_MS;
-    const parsed = Number.parseInt(raw, 10);
-    if (!Number.isFinite(parsed)) return OSC11_MIN_INTERVAL_MS;
-    return Math.max(1000, parsed);
+function getHistoryLogPath(): string | null {
+    const raw = String(process.env.PI_THEME_SYNC_HISTORY_LOG ?? "").trim();
+    const lowered = raw.toLowerCase();
+    if (!raw || lowered === "0" || lowered === "false" || lowered === "off") return null;
+    if (lowered === "1" || lowered === "true" || lowered === "on") return DEFAULT_HISTORY_LOG;
+    return raw;
 }
 
-function isOSFallbackEnabled(): boolean {
-    const raw = String(process.env.PI_THEME_SYNC_OS_FALLBACK ?? "auto").trim().toLowerCase();
-    if (raw === "1" || raw === "true" || raw === "on") return true;
-    if (raw === "0" || raw === "false" || raw === "off") return false;
-    // auto: use OS fallback locally for stability; avoid remote host OS mismatch.
-    return !isLikelyRemoteSession();
+function toHistoryEntry(
+    trace: DetectionTrace,
+    trigger: string,
+    theme: string | null,
+    outcome: HistoryEntry["outcome"],
+    error?: string,
+): HistoryEntry {
+    const entry: HistoryEntry = {
+        at: new Date().toISOString(),
+        trigger,
+        chosen: trace.chosenLabel ?? trace.chosen,
+        appearance: trace.appearance,
+        band: trace.band,
+        osc11Rgb: trace.osc11Rgb ? formatRgb(trace.osc11Rgb) : null,
+        osc11LatencyMs: trace.osc11LatencyMs,
+        steps: formatSteps(trace.steps),
+        theme,
+        outcome,
+    };
+    if (error) entry.error = error;
+    return entry;
 }
 
-function isLikelyRemoteSession(): boolean {
-    return Boolean(process.env.SSH_CONNECTION || process.env.SSH_CLIENT || process.env.SSH_TTY);
+async function appendHistoryLog(filePath: string, entry: HistoryEntry): Promise<void> {
+    try {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        const size = await stat(filePath).then((info) => info.size, () => 0);
+        if (size > HISTORY_LOG_MAX_BYTES) await rename(filePath, `${filePath}.1`);
+        await appendFile(filePath, `${JSON.stringify(entry)}\n`, "utf8");
+    } catch {
+        // best effort: history must never break syncing
+    }
 }
 
-function allowBackgroundOsc11(): boolean {
-    const raw = String(process.env.PI_THEME_SYNC_BACKGROUND_OSC11 ?? "auto").trim().toLowerCase();
-    if (raw === "1" || raw === "true" || raw === "on") return true;
-    if (raw === "0" || raw === "false" || raw === "off") return false;
-    // auto: prefer OSC11 polling locally, avoid it for likely remote sessions.
-    return !isLikelyRemoteSession();
+/** The last `count` records from the log and its rotated predecessor, oldest first. */
+async function readHistoryLog(filePath: string, count: number): Promise<HistoryEntry[]> {
+    const entries: HistoryEntry[] = [];
+    for (const file of [filePath, `${filePath}.1`]) {
+        const text = await readFile(file, "utf8").catch(() => "");
+        const parsed = text
+            .split("\n")
+            .filter((line) => line.trim().length > 0)
+            .flatMap((line) => {
+                try {
+                    const value = JSON.parse(line) as unknown;
+                    return isObject(value) && typeof value.at === "string" && typeof value.trigger === "string"
+                        ? [value as HistoryEntry]
+                        : [];
+                } catch {
+                    return [];
+                }
+            });
+        entries.unshift(...parsed);
+        if (entries.length >= count) break;
+    }
+    return entries.slice(-count);
 }
 
-async function resolveAppearance(
-    config: Config,
-    osc11State: Osc11State,
-    options?: { allowOsc11?: boolean; forceOsc11?: boolean; allowOsc11Cache?: boolean },
-): Promise<Appearance | null> {
-    const trace = await resolveAppearanceWithTrace(config, osc11State, options);
-    return trace.appearance;
+function formatHistoryEntry(entry: HistoryEntry): string {
+    const band = entry.band === null ? "" : ` band=${entry.band}`;
+    const rgb = entry.osc11Rgb ? ` rgb=${entry.osc11Rgb}` : "";
+    const latency = entry.osc11LatencyMs === null ? "" : ` ${entry.osc11LatencyMs}ms`;
+    const theme = entry.theme ? ` → ${entry.theme}` : "";
+    const error = entry.error ? `: ${entry.error}` : "";
+    return `${entry.at} ${entry.trigger} ${entry.chosen} ${entry.appearance ?? "null"}${band}${rgb}${latency}${theme} (${entry.outcome}${error})`;
 }
 
-type DetectionTrace = {
-    chosen: "override" | "osc11" | "osc11-cache" | "os" | "none";
-    appearance: Appearance | null;
-    override: Appearance | "auto" | null;
-    osc11Enabled: boolean;
-    osc11Attempted: boolean;
-    osc11Result: Appearance | null;
-    osc11UsedCache: boolean;
-    osc11SkipReason: string | null;
-    osc11Failures: number;
-    osResult: Appearance | null;
+// ---------------------------------------------------------------------------
+// Activity tracking
+//
+// Background probes only touch /dev/tty while pi is idle: not while the
+// agent runs, and not within ACTIVITY_QUIET_MS of the last keystroke. Input
+// that arrives mid-probe cancels it. Color replies that still come back
+// late (slow SSH links) are swallowed before they reach the editor.
+// ---------------------------------------------------------------------------
+
+const ACTIVITY_QUIET_MS = 1500;
+
+type ActivityState = {
+    agentBusy: boolean;
+    lastInputAt: number;
+    /** Background probes held back since start, and cancelled mid-flight. */
+    deferred: number;
+    cancelled: number;
 };
 
-async function resolveAppearanceWithTrace(
-    config: Config,
-    osc11State: Osc11State,
-    options?: { allowOsc11?: boolean; forceOsc11?: boolean; allowOsc11Cache?: boolean },
-): Promise<DetectionTrace> {
-    const trace: DetectionTrace = {
-        chosen: "none",
-        appearance: null,
-        override: null,
-        osc11Enabled: isOsc11Enabled(),
-        osc11Attempted: false,
-        osc11Result: null,
-        osc11UsedCache: false,
-        osc11SkipReason: null,
-        osc11Failures: osc11State.failures,
-        osResult: null,
-    };
+/** OSC 10/11/4 color reply (ours, arriving after the helper stopped reading). */
+function isStrayColorReply(data: string): boolean {
+    return /^\x1b\](?:10|11|4;\d+);/.test(data);
+}
 
-    const override = await readOverrideFile(config.overrideFile, config.overrideMaxAgeMs);
-    trace.override = override;
-    if (override === "dark" || override === "light") {
-        trace.chosen = "override";
-        trace.appearance = override;
-        return trace;
-    }
+/** Any terminal report rather than a keystroke (DA1/DA2, XTVERSION, DECRQM, mode 2031, OSC replies). */
+function isTerminalReport(data: string): boolean {
+    return data.startsWith("\x1b]") || data.startsWith("\x1bP>|") || /^\x1b\[[?>][\d;]*(?:c|n|\$y)$/.test(data);
+}
 
-    const forceOsc11 = options?.forceOsc11 === true;
-    const allowOsc11 = forceOsc11 || options?.allowOsc11 === true;
-    const allowOsc11Cache = options?.allowOsc11Cache !== false;
+function busyReason(state: ActivityState, ctx: ExtensionContext, now: number): string | null {
+    if (state.agentBusy || !ctx.isIdle()) return "agent";
+    if (now - state.lastInputAt < ACTIVITY_QUIET_MS) return "typing";
+    return null;
+}
 
-    if (trace.osc11Enabled && allowOsc11) {
-        const now = Date.now();
-        const minIntervalMs = getOsc11MinIntervalMs();
-        const canProbe = now >= osc11State.disabledUntil && (forceOsc11 || now - osc11State.lastCheckedAt >= minIntervalMs);
-
-        if (canProbe) {
-            trace.osc11Attempted = true;
-            osc11State.lastCheckedAt = now;
-            const fromTerminal = await queryTerminalBackground();
-            trace.osc11Result = fromTerminal;
-            if (fromTerminal) {
-                osc11State.lastAppearance = fromTerminal;
-                osc11State.failures = 0;
-                trace.osc11Failures = 0;
-                trace.chosen = "osc11";
-                trace.appearance = fromTerminal;
-                return trace;
-            }
-
-            osc11State.failures += 1;
-            trace.osc11Failures = osc11State.failures;
-            if (osc11State.failures >= OSC11_DISABLE_AFTER_FAILURES) {
-                osc11State.disabledUntil = now + OSC11_DISABLE_COOLDOWN_MS;
-                osc11State.failures = 0;
-                trace.osc11Failures = 0;
-                trace.osc11SkipReason = `cooldown:${OSC11_DISABLE_COOLDOWN_MS}`;
-            }
-        } else if (now < osc11State.disabledUntil) {
-            trace.osc11SkipReason = `cooldown-until:${new Date(osc11State.disabledUntil).toISOString()}`;
-        } else {
-            trace.osc11SkipReason = `throttled:${minIntervalMs}`;
-        }
-    } else {
-        trace.osc11SkipReason = trace.osc11Enabled ? "disabled-by-mode" : "disabled";
-    }
+function formatActivity(state: ActivityState, ctx: ExtensionContext, now: number): string {
+    return `${busyReason(state, ctx, now) ?? "idle"} deferred=${state.deferred} cancelled=${state.cancelled}`;
+}
 
-    if (isOSFallbackEnabled()) {
-        const fromOS = await detectOSAppearance();
-        trace.osResult = fromOS;
-        if (fromOS) {
-            trace.chosen = "os";
-            trace.appearance = fromOS;
-            return trace;
-        }
-    }
+// ---------------------------------------------------------------------------
+// Manual pin  (/system-theme-pin)
+//
+// While a pin is active, auto-sync leaves the current theme alone. Pins come
+// from the command or, unless PI_THEME_SYNC_AUTO_PIN=0, from noticing that
+// the theme was changed outside this extension (e.g. pi's theme selector).
+// ---------------------------------------------------------------------------
 
-    if (allowOsc11Cache && osc11State.lastAppearance) {
-        trace.osc11UsedCache = true;
-        trace.chosen = "osc11-cache";
-        trace.appearance = osc11State.lastAppearance;
+type ThemePin = {
+    /** Epoch ms when the pin lapses; `null` holds until cleared or pi exits. */
+    until: number | null;
+    reason: "manual" | "external";
+    /** Theme that was active when the pin was set. */
+    theme: string | null;
+};
+
+function isAutoPinEnabled(): boolean {
+    const raw = String(process.env.PI_THEME_SYNC_AUTO_PIN ?? "1").trim().toLowerCase();
+    return raw !== "0" && raw !== "false" && raw !== "off";
+}
+
+/** `90s`, `15m`, `2h`, `1h30m`, `1d`; a bare number means minutes. */
+function parseDurationMs(text: string): number | null {
+    const trimmed = text.trim().toLowerCase();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(Number(trimmed) * 60_000);
+    if (!/^(\d+(\.\d+)?[smhd])+$/.test(trimmed)) return null;
+    const unitMs: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+    let total = 0;
+    for (const [, amount, unit] of trimmed.matchAll(/(\d+(?:\.\d+)?)([smhd])/g)) {
+        total += Number(amount) * unitMs[unit!]!;
     }
+    return total > 0 ? Math.round(total) : null;
+}
 
-    return trace;
+function formatPin(pin: ThemePin | null): string {
+    if (!pin) return "off";
+    const until = pin.until === null ? "session" : `until ${new Date(pin.until).toISOString()}`;
+    return `${until} (${pin.reason}${pin.theme ? `: ${pin.theme}` : ""})`;
 }
 
 // ---------------------------------------------------------------------------
 // Interactive settings command  (/system-theme)
 // ---------------------------------------------------------------------------
 
+/**
+ * Pick one of the installed themes. Typing filters the list by part of the
+ * name, and each highlighted theme is previewed live, as in pi's own theme
+ * selector. Whatever was showing before comes back afterwards, picked or
+ * not: the choice only takes effect through "Save and apply".
+ */
 async function promptTheme(
     ctx: ExtensionCommandContext,
     label: string,
     currentValue: string,
 ): Promise<string | undefined> {
-    const next = await ctx.ui.input(label, currentValue);
-    if (next === undefined) return undefined;
-    const trimmed = next.trim();
-    return trimmed.length > 0 ? trimmed : currentValue;
+    // Loaded here rather than at the top so the bundled CLI, which shares this file, doesn't need pi.
+    const { DynamicBorder } = await import("@mariozechner/pi-coding-agent");
+    const { Container, Input, SelectList, Text } = await import("@mariozechner/pi-tui");
+    const themes = [...new Set(ctx.ui.getAllThemes().map((theme) => theme.name))].sort((a, b) => a.localeCompare(b));
+    const original = ctx.ui.theme.name ?? null;
+    const show = (name: string | null) => {
+        if (name && ctx.ui.theme.name !== name) ctx.ui.setTheme(name);
+    };
+    // Colors are looked up on every render, so the dialog follows the previewed theme.
+    const color = (role: "accent" | "muted" | "border") => (text: string) => ctx.ui.theme.fg(role, text);
+    const listTheme: SelectListTheme = {
+        selectedPrefix: color("accent"),
+        selectedText: color("accent"),
+        description: color("muted"),
+        scrollInfo: color("muted"),
+        noMatch: color("muted"),
+    };
+
+    try {
+        return await ctx.ui.custom<string | undefined>((tui, _theme, keybindings, done) => {
+            const title = new Text("", 1, 0);
+            const filter = new Input();
+            filter.focused = true;
+            const listSlot = new Container();
+            let list: SelectList | null = null;
+
+            const rebuild = () => {
+                const query = filter.getValue().trim().toLowerCase();
+                const items = themes
+                    .filter((name) => name.toLowerCase().includes(query))
+                    .map((name) => ({ value: name, label: name, description: name === currentValue ? "(current)" : undefined }));
+                const next = new SelectList(items, 10, listTheme, { minPrimaryColumnWidth: 12, maxPrimaryColumnWidth: 32 });
+                next.onSelectionChange = (item) => show(item.value);
+                next.onSelect = (item) => done(item.value);
+                next.onCancel = () => done(undefined);
+                if (!query) next.setSelectedIndex(Math.max(0, themes.indexOf(currentValue)));
+                list = next;
+                listSlot.clear();
+                listSlot.addChild(next);
+                const count = query ? ` (${items.length} of ${themes.length})` : "";
+                title.setText(color("accent")(`${label}: ${currentValue}${count}`));
+            };
+
+            const container = new Container();
+            container.addChild(new DynamicBorder(color("border")));
+            container.addChild(title);
+            container.addChild(filter);
+            container.addChild(listSlot);
+            container.addChild(new DynamicBorder(color("border")));
+            rebuild();
+
+            const listKeys = ["tui.select.up", "tui.select.down", "tui.select.confirm", "tui.select.cancel"] as const;
+            return {
+                render: (width: number) => container.render(width),
+                invalidate: () => container.invalidate(),
+                handleInput: (data: string) => {
+                    if (listKeys.some((key) => keybindings.matches(data, key))) {
+                        list?.handleInput(data);
+                    } else {
+                        const before = filter.getValue();
+                        filter.handleInput(data);
+                        if (filter.getValue() !== before) {
+                            rebuild();
+                            show(list?.getSelectedItem()?.value ?? original);
+                        }
+                    }
+                    tui.requestRender();
+                },
+            };
+        });
+    } finally {
+        show(original);
+    }
+}
+
+function formatBandsText(bands: ThemeBand[]): string {
+    return bands.map((band) => `${band.below ?? "*"} ${band.theme} ${band.appearance}`).join("\n");
+}
+
+/** Parse the editor format: one `<below|*> <theme> [dark|light]` per line. */
+function parseBandsText(text: string, threshold: number): ThemeBand[] | null | undefined {
+    const lines = text
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0 && !line.startsWith("#"));
+    if (lines.length === 0) return null;
+
+    const entries = lines.map((line) => {
+        const [bound, theme, appearance] = line.split(/\s+/);
+        return { below: bound === "*" ? undefined : Number(bound), theme, appearance };
+    });
+    if (entries.some((entry) => entry.below !== undefined && !Number.isFinite(entry.below))) return undefined;
+    return toBands(entries, threshold) ?? undefined;
+}
+
+async function promptBands(ctx: ExtensionCommandContext, draft: Config): Promise<ThemeBand[] | null | undefined> {
+    const initial = formatBandsText(getBands(draft));
+    let text = initial;
+    while (true) {
+        const next = await ctx.ui.editor(
+            "Luminance bands — one per line: <below|*> <theme> [dark|light]; empty = dark/light only",
+            text,
+        );
+        if (next === undefined) return undefined;
+        // Saving the implied dark/light pair unchanged keeps it tied to the theme settings.
+        if (draft.bands === null && next.trim() === initial) return null;
+        const parsed = parseBandsText(next, draft.luminanceThreshold);
+        if (parsed !== undefined) return parsed;
+        ctx.ui.notify("Bounds must increase and only the last band may use *.", "warning");
+        text = next;
+    }
 }
 
 async function promptPollMs(ctx: ExtensionCommandContext, currentValue: number): Promise<number | undefined> {
@@ -565,47 +3975,311 @@ async function promptPollMs(ctx: ExtensionCommandContext, currentValue: number):
     }
 }
 
+// ---------------------------------------------------------------------------
+// Shared with the push/watch CLI (cli.ts)
+// ---------------------------------------------------------------------------
+
+export {
+    appearanceForRgb,
+    detectOSAppearance,
+    detectOSAppearanceWithTrace,
+    formatOSBackends,
+    formatRgb,
+    loadConfig,
+    overrideFileName,
+    parseDurationMs,
+    parseOverrideAppearance,
+    queryTerminalBackground,
+    relativeLuminance,
+    signOverridePayload,
+    watchPortalColorScheme,
+};
+export type { Appearance, Config, OverrideAppearance, OverridePayload };
+
 // ---------------------------------------------------------------------------
 // Extension entry point
 // ---------------------------------------------------------------------------
 
 export default function systemThemeBridge(pi: ExtensionAPI): void {
-    let intervalId: ReturnType<typeof setInterval> | null = null;
+    let pollTimer: ReturnType<typeof setTimeout> | null = null;
+    // Bumped on every restart/shutdown so a poll that was mid-tick doesn't re-arm a stale loop.
+    let pollGeneration = 0;
+    const pollState: PollState = { intervalMs: 0, boostUntil: 0, lastTheme: null, nextAt: null };
+    let scheduleTimer: ReturnType<typeof setTimeout> | null = null;
     let inFlight = false;
+    let pendingImmediateTick = false;
+    let stopOverrideWatcher: (() => void) | null = null;
+    let listener: { server: Server; target: ListenTarget } | null = null;
+    // Latest listener payload per source; "auto" is kept so it can clear that source's file entry.
+    const pushedOverrides = new Map<string, OverridePayload>();
+    // Override that won the last tick, so its expiry can be announced.
+    let activeOverride: OverrideEntry | null = null;
+    const overrideAuth: OverrideAuthState = { accepted: new Map() };
+    let overrideExpiryTimer: ReturnType<typeof setTimeout> | null = null;
+    let stopColorScheme: (() => void) | null = null;
+    let osc11Helper: Osc11Helper | null = null;
+    let probeCoordinator: ProbeCoordinator | null = null;
+    let tmuxClient: TmuxClient | null = null;
+    let remoteVerdict: RemoteVerdict | null = null;
+    // Identified once per terminal: at the first session start, and again when another tmux client takes over.
+    let terminalIdentity: TerminalIdentity | null = null;
+    let terminalProfile = resolveTerminalProfile(null, {});
+    let stopTmuxWatch: (() => void) | null = null;
+    let stopCoordinatorWatch: (() => void) | null = null;
+    let stopPortalWatch: (() => void) | null = null;
+    let stopActivityWatch: (() => void) | null = null;
+    // Replaced after every cancel; one-shot probes (no helper) listen on it.
+    let probeCancel = new AbortController();
+    let idleTimer: ReturnType<typeof setTimeout> | null = null;
+    const activity: ActivityState = { agentBusy: false, lastInputAt: 0, deferred: 0, cancelled: 0 };
+    const history: HistoryEntry[] = [];
+    let historyWrites: Promise<void> = Promise.resolve();
+    let lastLoggedHistoryKey: string | null = null;
+    // A background probe was held back; run it once the agent finishes.
+    let probeOwed = false;
+    const portalWatchStatus: { state: "off" | "active" | "unavailable" } = { state: "off" };
+    const paletteState: PaletteState = {
+        palette: null,
+        appearance: null,
+        updatedAt: 0,
+        failedAt: 0,
+    };
+    const colorSchemeState: ColorSchemeState = {
+        status: "off",
+        appearance: null,
+        updatedAt: 0,
+        reports: 0,
+    };
+    const listenerStatus: PushListenerStatus = {
+        state: "off",
+        address: null,
+        error: null,
+        received: 0,
+        rejected: 0,
+        lastRejection: null,
+        lastPayload: null,
+        lastReceivedAt: 0,
+    };
     let config: Config = { ...DEFAULT_CONFIG };
+    let loadedConfig: LoadedConfig | null = null;
     let lastAppliedTheme: string | null = null;
+    // Not reset on session_switch: a pin outlives the session it was set in.
+    let pin: ThemePin | null = null;
     let didWarnSetThemeFailure = false;
+    // Each bad theme name in the config is reported once per process, not on every session switch.
+    const reportedUnknownThemes = new Set<string>();
+    // The /system-theme picker is previewing themes; ticks would fight it (and auto-pin on it).
+    let themePickerOpen = false;
     const osc11State: Osc11State = {
         lastCheckedAt: 0,
         lastAppearance: null,
+        lastBand: null,
         failures: 0,
         disabledUntil: 0,
+        tmuxMode: "plain",
     };
 
     function shouldAutoSync(ctx: ExtensionContext): boolean {
         return canManageThemes(ctx);
     }
 
+    /** Detection inputs owned by this instance (push listener, mode 2031, probe helper). */
+    function liveSources(): ResolveOptions {
+        return {
+            pushedOverrides: [...pushedOverrides.values()],
+            overrideAuth,
+            colorScheme: colorSchemeState,
+            osc11Helper,
+            probeSignal: probeCancel.signal,
+            probeCoordinator,
+            tmux: tmuxClient,
+            remote: remoteVerdict,
+            terminalProfile: terminalProfile.profile,
+        };
+    }
+
+    /**
+     * The generated palette theme when enabled and usable, refreshing it if the
+     * terminal background moved. Returns null to fall back to the mapped names.
+     */
+    async function resolveGeneratedTheme(trace: DetectionTrace, options?: ResolveOptions): Promise<string | null> {
+        if (!config.generateTheme || !trace.appearance) return null;
+
+        const current = paletteState.palette;
+        const backgroundMoved =
+            current !== null && trace.osc11Rgb !== null && formatRgb(trace.osc11Rgb) !== formatRgb(current.background);
+        const stale = current === null || paletteState.appearance !== trace.appearance || backgroundMoved;
+        const mayQuery =
+            isOsc11Enabled() &&
+            (options?.forceOsc11 === true || (options?.allowOsc11 === true && !options.deferOsc11)) &&
+            Date.now() - paletteState.failedAt >= OSC11_DISABLE_COOLDOWN_MS;
+
+        if (stale && mayQuery) {
+            const mode = chooseTmuxProbeMode(tmuxClient, osc11State.tmuxMode);
+            const palette = await queryTerminalPalette(osc11Helper, toProbeOptions(terminalProfile.profile, mode), probeCancel.signal);
+            try {
+                if (!palette) throw new Error("no palette reply");
+                await writeGeneratedTheme(palette);
+                paletteState.palette = palette;
+                paletteState.appearance = trace.appearance;
+                paletteState.updatedAt = Date.now();
+                paletteState.failedAt = 0;
+                // Same theme name, new contents: make sure tick re-applies it.
+                lastAppliedTheme = null;
+            } catch {
+                paletteState.palette = null;
+                paletteState.failedAt = Date.now();
+            }
+        }
+
+        return paletteState.palette && paletteState.appearance === trace.appearance ? GENERATED_THEME_NAME : null;
+    }
+
+    async function chooseTheme(trace: DetectionTrace, options?: ResolveOptions): Promise<string | null> {
+        if (!trace.appearance) return null;
+        // A pushed theme name is the most explicit request there is.
+        if (trace.chosen === "override" && trace.overrideEntry?.payload.theme) return trace.overrideEntry.payload.theme;
+        const rule = matchThemeRule(config.rules, trace.appearance, getRuleEnvironment(tmuxClient, remoteVerdict));
+        if (rule) return rule.theme;
+        return (await resolveGeneratedTheme(trace, options)) ?? targetThemeFor(config, trace);
+    }
+
+    /** Stop a query that is reading /dev/tty, whether it runs in the helper or a one-shot process. */
+    function cancelProbe(): void {
+        osc11Helper?.cancel();
+        probeCancel.abort();
+        probeCancel = new AbortController();
+    }
+
+    function restartActivityWatch(ctx: ExtensionContext): void {
+        stopActivityWatch?.();
+        stopActivityWatch = null;
+        if (!shouldAutoSync(ctx)) return;
+        stopActivityWatch = ctx.ui.onTerminalInput((data) => {
+            if (isStrayColorReply(data)) return { consume: true };
+            if (isTerminalReport(data)) return undefined;
+            activity.lastInputAt = Date.now();
+            cancelProbe();
+            return undefined;
+        });
+    }
+
+    /** Expire or create pins; true while auto-sync should stay hands-off. */
+    function isPinned(ctx: ExtensionContext): boolean {
+        const current = ctx.ui.theme.name ?? null;
+        if (pin && pin.until !== null && Date.now() >= pin.until) {
+            pin = null;
+            // Whatever is showing now was chosen under the pin; don't mistake it for a new manual change.
+            lastAppliedTheme = current;
+            if (ctx.hasUI) ctx.ui.notify("Theme pin expired; auto-sync resumed.", "info");
+        }
+        if (pin) return true;
+
+        const changedElsewhere =
+            lastAppliedTheme !== null && !lastAppliedTheme.startsWith("err:") && current !== null && current !== lastAppliedTheme;
+        if (changedElsewhere && isAutoPinEnabled()) {
+            pin = { until: null, reason: "external", theme: current };
+            if (ctx.hasUI) {
+                ctx.ui.notify(
+                    `Theme changed to "${current}" outside pi-theme-sync; auto-sync paused. /system-theme-pin off resumes it.`,
+                    "info",
+                );
+            }
+            return true;
+        }
+        return false;
+    }
+
+    function clearOverrideExpiryTimer(): void {
+        if (overrideExpiryTimer) {
+            clearTimeout(overrideExpiryTimer);
+            overrideExpiryTimer = null;
+        }
+    }
+
+    /** Announce when the winning override runs out, and wake up right when it does. */
+    function trackOverride(ctx: ExtensionContext, trace: DetectionTrace): void {
+        // Only trust the trace when the override step actually looked at the store.
+        const step = trace.steps.find((entry) => entry.id === "override");
+        if (!step || (step.status !== "chosen" && step.status !== "miss")) return;
+
+        const previous = activeOverride;
+        const winner = trace.overrideEntry;
+        const now = Date.now();
+        if (previous && previous.expiresAt !== null && now >= previous.expiresAt && winner?.source !== previous.source) {
+            if (ctx.hasUI) {
+                const next = winner ? `now following "${winner.source}"` : "back to automatic detection";
+                ctx.ui.notify(`Theme override from "${previous.source}" expired; ${next}.`, "info");
+            }
+        }
+        activeOverride = winner;
+
+        clearOverrideExpiryTimer();
+        if (winner && winner.expiresAt !== null) {
+            overrideExpiryTimer = setTimeout(() => {
+                overrideExpiryTimer = null;
+                requestImmediateTick(ctx);
+            }, Math.max(0, winner.expiresAt - now) + OVERRIDE_WATCH_DEBOUNCE_MS);
+        }
+    }
+
+    function recordHistory(entry: HistoryEntry): void {
+        history.push(entry);
+        if (history.length > HISTORY_SIZE) history.shift();
+
+        const key = historyKey(entry);
+        const repeat = BACKGROUND_HISTORY_TRIGGERS.has(entry.trigger) && key === lastLoggedHistoryKey;
+        lastLoggedHistoryKey = key;
+        const logPath = getHistoryLogPath();
+        // Chained so rotation and appends never interleave.
+        if (logPath && !repeat) historyWrites = historyWrites.then(() => appendHistoryLog(logPath, entry));
+    }
+
     async function tick(
         ctx: ExtensionContext,
-        options?: { allowOsc11?: boolean; forceOsc11?: boolean; allowOsc11Cache?: boolean },
+        options?: ResolveOptions,
+        trigger = "poll",
     ): Promise<void> {
-        if (!shouldAutoSync(ctx) || inFlight) return;
+        if (!shouldAutoSync(ctx) || inFlight || themePickerOpen) return;
+        if (isPinned(ctx)) {
+            // A pinned instance won't probe; let another pane lead.
+            void probeCoordinator?.release();
+            return;
+        }
 
         inFlight = true;
+        let trace: DetectionTrace | null = null;
+        let targetTheme: string | null = null;
+        let outcome: HistoryEntry["outcome"] = "undetected";
+        let error: string | undefined;
         try {
-            const appearance = await resolveAppearance(config, osc11State, options);
-            if (!appearance) return;
+            const deferOsc11 = options?.forceOsc11 ? null : busyReason(activity, ctx, Date.now());
+            if (options?.allowOsc11) {
+                if (deferOsc11) activity.deferred += 1;
+                probeOwed = deferOsc11 !== null;
+            }
+            const resolveOptions: ResolveOptions = { ...options, deferOsc11 };
+            trace = await resolveAppearanceWithTrace(config, osc11State, { ...resolveOptions, ...liveSources() });
+            if (trace.osc11SkipReason === "cancelled:input") {
+                activity.cancelled += 1;
+                probeOwed = true;
+            }
+            trackOverride(ctx, trace);
+            targetTheme = await chooseTheme(trace, resolveOptions);
+            if (!targetTheme) return;
 
-            const targetTheme = appearance === "dark" ? config.darkTheme : config.lightTheme;
+            outcome = "unchanged";
             if (ctx.ui.theme.name === targetTheme && lastAppliedTheme === targetTheme) return;
 
             const result = ctx.ui.setTheme(targetTheme);
             if (result.success) {
+                outcome = "applied";
                 lastAppliedTheme = targetTheme;
                 didWarnSetThemeFailure = false;
             } else {
                 const msg = result.error ?? "unknown";
+                outcome = "failed";
+                error = msg;
                 if (lastAppliedTheme !== `err:${targetTheme}:${msg}`) {
                     lastAppliedTheme = `err:${targetTheme}:${msg}`;
                     console.warn(`[pi-theme-sync] setTheme("${targetTheme}"): ${msg}`);
@@ -620,45 +4294,236 @@ export default function systemThemeBridge(pi: ExtensionAPI): void {
                 }
             }
         } finally {
+            if (trace) recordHistory(toHistoryEntry(trace, trigger, targetTheme, outcome, error));
             inFlight = false;
+            if (pendingImmediateTick) {
+                pendingImmediateTick = false;
+                void tick(ctx, { allowOsc11: allowBackgroundOsc11(terminalProfile.profile) }, "event");
+            }
         }
     }
 
-    function restartPolling(ctx: ExtensionContext): void {
-        if (intervalId) {
-            clearInterval(intervalId);
-            intervalId = null;
+    function requestImmediateTick(ctx: ExtensionContext, trigger = "event"): void {
+        // A push landed: apply it now instead of waiting for the next poll.
+        // If a tick is already running, re-run once it finishes so the
+        // change isn't lost behind a stale read.
+        if (inFlight) {
+            pendingImmediateTick = true;
+            return;
+        }
+        void tick(ctx, { allowOsc11: allowBackgroundOsc11(terminalProfile.profile) }, trigger);
+    }
+
+    function restartOverrideWatcher(ctx: ExtensionContext): void {
+        stopOverrideWatcher?.();
+        stopOverrideWatcher = null;
+        if (!shouldAutoSync(ctx)) return;
+        stopOverrideWatcher = watchOverrideFiles(config.overrideFile, () => requestImmediateTick(ctx));
+    }
+
+    async function restartColorScheme(ctx: ExtensionContext): Promise<void> {
+        stopColorScheme?.();
+        stopColorScheme = null;
+        if (!shouldAutoSync(ctx) || !isColorSchemeEnabled()) return;
+        if (!terminalProfile.profile.colorScheme) {
+            colorSchemeState.status = "unsupported";
+            return;
+        }
+        const subscription = subscribeColorScheme(ctx, colorSchemeState, () => requestImmediateTick(ctx));
+        stopColorScheme = subscription.stop;
+        await subscription.ready;
+    }
+
+    async function closeProbeCoordinator(): Promise<void> {
+        stopCoordinatorWatch?.();
+        stopCoordinatorWatch = null;
+        const coordinator = probeCoordinator;
+        probeCoordinator = null;
+        await coordinator?.release();
+    }
+
+    async function ensureProbeCoordinator(ctx: ExtensionContext): Promise<void> {
+        if (!shouldAutoSync(ctx) || !isOsc11Enabled() || !isCoordinationEnabled()) {
+            await closeProbeCoordinator();
+            return;
         }
+        const key = await getTerminalKey(tmuxClient);
+        if (probeCoordinator && probeCoordinator.key === key) return;
+        await closeProbeCoordinator();
+        if (!key) return;
+        probeCoordinator = createProbeCoordinator(key);
+        stopCoordinatorWatch = probeCoordinator.watch(() => requestImmediateTick(ctx));
+    }
+
+    function restartTmuxWatch(ctx: ExtensionContext): void {
+        stopTmuxWatch?.();
+        stopTmuxWatch = null;
         if (!shouldAutoSync(ctx)) return;
-        intervalId = setInterval(
-            () => void tick(ctx, { allowOsc11: allowBackgroundOsc11(), allowOsc11Cache: false }),
-            config.pollMs,
+        stopTmuxWatch = watchTmuxClient(async (client) => {
+            tmuxClient = client;
+            remoteVerdict = await detectRemoteSession(config.remoteSession, tmuxClient);
+            terminalIdentity = await identifyTerminal(ctx, tmuxClient);
+            terminalProfile = resolveTerminalProfile(terminalIdentity, config.terminalProfiles);
+            // Another terminal is in front now: its background is unknown, and
+            // it may need a different query style.
+            osc11State.lastCheckedAt = 0;
+            osc11State.lastBand = null;
+            osc11State.failures = 0;
+            osc11State.disabledUntil = 0;
+            osc11State.tmuxMode = "plain";
+            restartPortalWatch(ctx);
+            void ensureProbeCoordinator(ctx).then(() => requestImmediateTick(ctx, "tmux-client"));
+        });
+    }
+
+    function restartPortalWatch(ctx: ExtensionContext): void {
+        stopPortalWatch?.();
+        stopPortalWatch = null;
+        const osStep = config.strategies.some((spec) => spec.id === "os" && spec.enabled);
+        if (!shouldAutoSync(ctx) || !osStep || !isOSFallbackEnabled(remoteVerdict)) return;
+        stopPortalWatch = watchPortalColorScheme(() => requestImmediateTick(ctx), portalWatchStatus);
+    }
+
+    let listenerCtx: ExtensionContext | null = null;
+
+    async function ensurePushListener(ctx: ExtensionContext): Promise<void> {
+        listenerCtx = ctx;
+        const target = shouldAutoSync(ctx) ? getListenTarget() : null;
+        if (listener && target && formatListenTarget(listener.target) === formatListenTarget(target)) return;
+
+        closePushListener();
+        if (!target) return;
+
+        const server = await startPushListener(
+            target,
+            (payload) => {
+                pushedOverrides.set(payload.source ?? "listener", payload);
+                if (listenerCtx) requestImmediateTick(listenerCtx);
+            },
+            listenerStatus,
+            (payload) => {
+                if (!config.overrideKey) return null;
+                return (
+                    checkOverrideSignature(payload, config.overrideKey) ??
+                    checkOverrideReplay(payload, payload.source ?? "listener", overrideAuth)
+                );
+            },
         );
+        if (server) listener = { server, target };
+        else console.warn(`[pi-theme-sync] push listener ${listenerStatus.address}: ${listenerStatus.error}`);
+    }
+
+    function closePushListener(): void {
+        if (listener) {
+            stopPushListener(listener.server, listener.target);
+            listener = null;
+        }
+        pushedOverrides.clear();
+        listenerStatus.state = "off";
+        listenerStatus.address = null;
+        listenerStatus.error = null;
+    }
+
+    function stopPolling(): void {
+        pollGeneration += 1;
+        if (pollTimer) {
+            clearTimeout(pollTimer);
+            pollTimer = null;
+        }
+        pollState.nextAt = null;
+    }
+
+    function restartPolling(ctx: ExtensionContext): void {
+        stopPolling();
+        if (!shouldAutoSync(ctx)) return;
+
+        const generation = pollGeneration;
+        const schedule = (delay: number): void => {
+            pollTimer = setTimeout(() => void poll(), delay);
+        };
+        const poll = async (): Promise<void> => {
+            pollTimer = null;
+            try {
+                await tick(ctx, { allowOsc11: allowBackgroundOsc11(terminalProfile.profile), allowOsc11Cache: false });
+            } catch (error) {
+                console.warn(`[pi-theme-sync] poll failed: ${error instanceof Error ? error.message : String(error)}`);
+            } finally {
+                // A failed tick must not end polling; only a restart or stop (new generation) does.
+                if (generation === pollGeneration) {
+                    const changed = lastAppliedTheme !== pollState.lastTheme;
+                    pollState.lastTheme = lastAppliedTheme;
+                    schedule(advancePollInterval(pollState, config, osc11State, terminalProfile.profile, changed, Date.now()));
+                }
+            }
+        };
+
+        // (Re)starting counts as a moment when changes are likely: poll at the base rate for a while.
+        const now = Date.now();
+        pollState.intervalMs = config.pollMs;
+        pollState.boostUntil = now + POLL_BOOST_WINDOW_MS;
+        pollState.lastTheme = lastAppliedTheme;
+        pollState.nextAt = now + config.pollMs;
+        schedule(config.pollMs);
+        armScheduleTimer(ctx);
+    }
+
+    /** Wake up exactly at the next schedule transition rather than on the next poll. */
+    function armScheduleTimer(ctx: ExtensionContext): void {
+        if (scheduleTimer) {
+            clearTimeout(scheduleTimer);
+            scheduleTimer = null;
+        }
+        if (!shouldAutoSync(ctx)) return;
+        const next = nextScheduleTransition(config, Date.now());
+        if (next === null) return;
+        scheduleTimer = setTimeout(() => {
+            scheduleTimer = null;
+            requestImmediateTick(ctx);
+            armScheduleTimer(ctx);
+        }, Math.max(0, next - Date.now()));
     }
 
     // -- /system-theme command (interactive settings) -------------------------
 
+    async function pickTheme(ctx: ExtensionCommandContext, label: string, currentValue: string): Promise<string | undefined> {
+        themePickerOpen = true;
+        try {
+            return await promptTheme(ctx, label, currentValue);
+        } finally {
+            themePickerOpen = false;
+        }
+    }
+
     pi.registerCommand("system-theme", {
-        description: "Configure system theme sync (dark/light mapping, poll interval)",
+        description: "Configure system theme sync (dark/light mapping, luminance bands, poll interval)",
         handler: async (_args, ctx) => {
             if (!canManageThemes(ctx)) {
                 if (ctx.hasUI) ctx.ui.notify("Requires interactive mode with themes.", "info");
                 return;
             }
 
-            const draft: Config = { ...config };
+            // The menu edits the global file; a project file keeps overriding it here.
+            await reloadConfig(ctx);
+            const draft: Config = { ...(loadedConfig?.global ?? config) };
+            const title = loadedConfig?.projectFile
+                ? `pi-theme-sync (global; overridden here by ${loadedConfig.projectFile})`
+                : "pi-theme-sync";
 
             while (true) {
                 const darkOpt = `Dark theme: ${draft.darkTheme}`;
                 const lightOpt = `Light theme: ${draft.lightTheme}`;
                 const pollOpt = `Poll interval (ms): ${draft.pollMs}`;
+                const bandsOpt = `Luminance bands: ${draft.bands ? draft.bands.map((b) => b.theme).join(" / ") : "dark/light"}`;
+                const generateOpt = `Generate theme from terminal palette: ${draft.generateTheme ? "on" : "off"}`;
                 const saveOpt = "Save and apply";
                 const cancelOpt = "Cancel";
 
-                const choice = await ctx.ui.select("pi-theme-sync", [
+                const choice = await ctx.ui.select(title, [
                     darkOpt,
                     lightOpt,
                     pollOpt,
+                    bandsOpt,
+                    generateOpt,
                     saveOpt,
                     cancelOpt,
                 ]);
@@ -666,12 +4531,12 @@ export default function systemThemeBridge(pi: ExtensionAPI): void {
                 if (choice === undefined || choice === cancelOpt) return;
 
                 if (choice === darkOpt) {
-                    const next = await promptTheme(ctx, "Dark theme", draft.darkTheme);
+                    const next = await pickTheme(ctx, "Dark theme", draft.darkTheme);
                     if (next !== undefined) draft.darkTheme = next;
                     continue;
                 }
                 if (choice === lightOpt) {
-                    const next = await promptTheme(ctx, "Light theme", draft.lightTheme);
+                    const next = await pickTheme(ctx, "Light theme", draft.lightTheme);
                     if (next !== undefined) draft.lightTheme = next;
                     continue;
                 }
@@ -680,16 +4545,34 @@ export default function systemThemeBridge(pi: ExtensionAPI): void {
                     if (next !== undefined) draft.pollMs = next;
                     continue;
                 }
+                if (choice === bandsOpt) {
+                    const next = await promptBands(ctx, draft);
+                    if (next !== undefined) draft.bands = next;
+                    continue;
+                }
+                if (choice === generateOpt) {
+                    draft.generateTheme = !draft.generateTheme;
+                    continue;
+                }
                 if (choice === saveOpt) {
-                    config = { ...config, darkTheme: draft.darkTheme, lightTheme: draft.lightTheme, pollMs: draft.pollMs };
                     try {
-                        await saveConfig(config);
-                        ctx.ui.notify("Settings saved.", "info");
+                        await saveConfig(draft);
+                        await reloadConfig(ctx);
                     } catch (e) {
                         ctx.ui.notify(`Save failed: ${e instanceof Error ? e.message : String(e)}`, "error");
                         return;
                     }
-                    await tick(ctx);
+                    const shadowed = (["darkTheme", "lightTheme", "pollMs", "bands", "generateTheme"] as const).filter(
+                        (key) => loadedConfig?.sources[key] === "project",
+                    );
+                    ctx.ui.notify(
+                        shadowed.length > 0
+                            ? `Settings saved. ${loadedConfig?.projectFile} still sets ${shadowed.join(", ")} in this project.`
+                            : "Settings saved.",
+                        shadowed.length > 0 ? "warning" : "info",
+                    );
+                    // A freshly enabled palette theme needs a tty query to exist at all.
+                    await tick(ctx, { allowOsc11: config.generateTheme }, "settings");
                     restartPolling(ctx);
                     return;
                 }
@@ -707,59 +4590,126 @@ export default function systemThemeBridge(pi: ExtensionAPI): void {
                 return;
             }
 
-            config = await loadConfig();
+            await reloadConfig(ctx);
             resetOsc11State();
+            paletteState.failedAt = 0;
+            paletteState.palette = null;
 
-            const trace = await resolveAppearanceWithTrace(config, osc11State, { forceOsc11: true });
+            const trace = await resolveAppearanceWithTrace(config, osc11State, {
+                forceOsc11: true,
+                ...liveSources(),
+            });
             const appearance = trace.appearance;
-            if (!appearance) {
+            const targetTheme = await chooseTheme(trace, { forceOsc11: true });
+            if (!appearance || !targetTheme) {
+                recordHistory(toHistoryEntry(trace, "refresh", targetTheme, "undetected"));
                 ctx.ui.notify("Refresh failed: could not detect appearance.", "warning");
                 return;
             }
 
-            const targetTheme = appearance === "dark" ? config.darkTheme : config.lightTheme;
             const result = ctx.ui.setTheme(targetTheme);
             if (!result.success) {
+                recordHistory(toHistoryEntry(trace, "refresh", targetTheme, "failed", result.error ?? "unknown"));
                 ctx.ui.notify(`Refresh failed: ${result.error ?? "unknown"}`, "error");
                 return;
             }
+            recordHistory(toHistoryEntry(trace, "refresh", targetTheme, "applied"));
 
             lastAppliedTheme = targetTheme;
+            const unpinned = pin !== null ? " (pin cleared)" : "";
+            pin = null;
             restartPolling(ctx);
-            ctx.ui.notify(`Theme refreshed (${trace.chosen}): ${appearance} → ${targetTheme}`, "info");
+            const band = trace.band === null ? "" : ` [band ${trace.band}]`;
+            ctx.ui.notify(
+                `Theme refreshed (${trace.chosenLabel ?? trace.chosen}): ${appearance}${band} → ${targetTheme}${unpinned}`,
+                "info",
+            );
         },
     });
 
     // -- /system-theme-debug command (detection trace) -----------------------
 
     pi.registerCommand("system-theme-debug", {
-        description: "Show detection trace (override / OSC11 / OS fallback)",
-        handler: async (_args, ctx) => {
+        description: "Show detection trace, or recent detections: /system-theme-debug [history [n]]",
+        handler: async (args, ctx) => {
             if (!ctx.hasUI) return;
 
-            config = await loadConfig();
-            const trace = await resolveAppearanceWithTrace(config, osc11State, { forceOsc11: true });
-            const targetTheme =
-                trace.appearance === "dark"
-                    ? config.darkTheme
-                    : trace.appearance === "light"
-                      ? config.lightTheme
-                      : "n/a";
+            const [subcommand, countArg] = args.trim().split(/\s+/);
+            if (subcommand === "history") {
+                // Recorded entries only: no probe, so this is safe to run at any time.
+                const count = Math.min(HISTORY_SIZE, Math.max(1, Number.parseInt(countArg ?? "", 10) || 20));
+                const logPath = getHistoryLogPath();
+                // This session comes from memory (every tick); the log adds what came before it.
+                const sessionStart = history[0]?.at ?? null;
+                const earlier = logPath
+                    ? (await readHistoryLog(logPath, count)).filter((entry) => sessionStart === null || entry.at < sessionStart)
+                    : [];
+                const entries = [...earlier, ...history].slice(-count);
+                const lines = [
+                    ...(entries.length > 0 ? entries.map(formatHistoryEntry) : ["No detections recorded yet."]),
+                    `log=${logPath ?? "off"}`,
+                ];
+                ctx.ui.notify(lines.join("\n"), "info");
+                return;
+            }
+
+            await reloadConfig(ctx);
+            const trace = await resolveAppearanceWithTrace(config, osc11State, {
+                forceOsc11: true,
+                ...liveSources(),
+            });
+            const chosenTheme = await chooseTheme(trace, { forceOsc11: true });
+            const targetTheme = chosenTheme ?? "n/a";
+            recordHistory(toHistoryEntry(trace, "debug", chosenTheme, "probe-only"));
+            const ruleEnv = getRuleEnvironment(tmuxClient, remoteVerdict);
 
             const lines = [
-                `chosen=${trace.chosen}`,
+                `chosen=${trace.chosenLabel ?? trace.chosen}`,
+                `pipeline=${formatSteps(trace.steps)}`,
                 `appearance=${trace.appearance ?? "null"}`,
+                `band=${trace.band === null ? "none" : formatBand(getBands(config), trace.band)}`,
+                `bands=${config.bands ? config.bands.length : "dark/light"}`,
+                `rule=${(trace.appearance && matchThemeRule(config.rules, trace.appearance, ruleEnv)?.label) || "none"}`,
+                `rules.env=${formatRuleEnvironment(ruleEnv)}`,
+                `config.project=${loadedConfig?.projectFile ?? "none"}${loadedConfig?.projectError ? ` (ignored: ${loadedConfig.projectError})` : ""}`,
+                `config.unknownThemes=${loadedConfig?.unknownThemes.join(", ") || "none"}`,
+                `config=${loadedConfig ? formatConfigSources(loadedConfig) : "defaults"}`,
                 `override=${trace.override ?? "null"}`,
+                `override.source=${trace.overrideEntry ? `${trace.overrideEntry.origin}:${trace.overrideEntry.source}` : "none"}`,
+                `override.theme=${trace.overrideEntry?.payload.theme ?? "none"}`,
+                `override.auth=${config.overrideKey ? "hmac-sha256" : "off"}`,
+                `override.rejected=${formatOverrideRejections(trace.overrideRejected)}`,
+                `override.entries=${trace.overrideEntries.map((entry) => formatOverrideEntry(entry, Date.now())).join(", ") || "none"}`,
+                `listener=${formatListenerStatus(listenerStatus)}`,
+                `colorScheme.status=${trace.colorSchemeStatus}`,
+                `colorScheme.result=${trace.colorSchemeResult ?? "null"}`,
+                `env=${trace.steps.some((step) => step.id === "env" && step.status !== "not-reached" && step.status !== "disabled") ? formatEnvHint(trace.envHint) : "not-read"}`,
                 `osc11.enabled=${trace.osc11Enabled}`,
                 `osc11.attempted=${trace.osc11Attempted}`,
                 `osc11.result=${trace.osc11Result ?? "null"}`,
+                `osc11.rgb=${trace.osc11Rgb ? formatRgb(trace.osc11Rgb) : "n/a"}`,
+                `osc11.luminance=${formatLuminance(trace.osc11Luminance)}`,
+                `osc11.threshold=${config.luminanceThreshold}±${config.luminanceHysteresis / 2}`,
+                `osc11.latencyMs=${trace.osc11LatencyMs ?? "n/a"}`,
+                `osc11.helper=${formatOsc11Helper(osc11Helper)}`,
                 `osc11.cache=${trace.osc11UsedCache ? trace.appearance ?? "null" : "none"}`,
                 `osc11.skip=${trace.osc11SkipReason ?? "none"}`,
                 `osc11.failures=${trace.osc11Failures}`,
+                `tmux=${formatTmuxClient(tmuxClient, chooseTmuxProbeMode(tmuxClient, osc11State.tmuxMode))}`,
+                `remote=${formatRemoteVerdict(remoteVerdict)}`,
+                `terminal=${formatTerminalProfile(terminalIdentity, terminalProfile)}`,
+                `osc11.coordination=${formatProbeCoordinator(probeCoordinator, Date.now())}`,
                 `os.result=${trace.osResult ?? "null"}`,
+                `os.backends=${formatOSBackends(trace.osBackends)}`,
+                `os.watch=${portalWatchStatus.state}`,
+                `schedule=${formatSchedules(config, Date.now())}`,
+                `palette=${formatPaletteState(paletteState, config.generateTheme)}`,
                 `targetTheme=${targetTheme}`,
                 `currentTheme=${ctx.ui.theme.name ?? "unknown"}`,
+                `pin=${formatPin(pin)}`,
                 `pollMs=${config.pollMs}`,
+                `poll=${formatPollState(pollState, Date.now())}`,
+                `activity=${formatActivity(activity, ctx, Date.now())}`,
             ];
 
             console.warn(`[pi-theme-sync][debug] ${lines.join(" | ")}`);
@@ -769,26 +4719,88 @@ export default function systemThemeBridge(pi: ExtensionAPI): void {
 
     // -- /system-theme-push command (write override file) ---------------------
 
+    const pushUsage =
+        "Usage: /system-theme-push dark|light|auto [--theme <name>] [--for <duration> | --sticky] [--priority <n>] [--source <name>]";
+
     pi.registerCommand("system-theme-push", {
-        description: "Write override appearance: /system-theme-push dark|light|auto",
+        description: "Write an override: /system-theme-push dark|light|auto [--theme name] [--for 30m|--sticky] [--priority n]",
         handler: async (args, ctx) => {
-            const first = String(args[0] ?? "").trim().toLowerCase();
-            const appearance = parseOverrideAppearance(first);
-            if (!appearance) {
-                if (ctx.hasUI) ctx.ui.notify("Usage: /system-theme-push dark|light|auto", "warning");
+            const words = args.trim().split(/\s+/).filter(Boolean);
+            const appearance = parseOverrideAppearance(words.shift()?.toLowerCase());
+            const payload: OverridePayload | null = appearance
+                ? { appearance, updatedAt: new Date().toISOString(), source: os.hostname() }
+                : null;
+            let error: string | null = payload ? null : "expected dark, light or auto";
+            while (payload && !error && words.length > 0) {
+                const flag = words.shift()!;
+                const value = flag === "--sticky" ? "" : words.shift();
+                if (!["--theme", "--for", "--sticky", "--priority", "--source"].includes(flag)) {
+                    error = `unknown option ${flag}`;
+                } else if (value === undefined) {
+                    error = `${flag} needs a value`;
+                } else if (flag === "--theme") {
+                    payload.theme = value;
+                } else if (flag === "--for") {
+                    const ms = parseDurationMs(value);
+                    if (ms === null) error = `invalid duration "${value}"`;
+                    else payload.expiresAt = new Date(Date.now() + ms).toISOString();
+                } else if (flag === "--sticky") {
+                    payload.sticky = true;
+                } else if (flag === "--priority") {
+                    const priority = Number(value);
+                    if (!Number.isFinite(priority)) error = `invalid priority "${value}"`;
+                    else payload.priority = priority;
+                } else {
+                    payload.source = value;
+                }
+            }
+            if (payload && !error && payload.theme && payload.appearance === "auto") error = "--theme needs dark or light";
+            if (payload && !error && payload.sticky && payload.expiresAt) error = "use either --for or --sticky";
+            if (!payload || error) {
+                if (ctx.hasUI) ctx.ui.notify(`${error}\n${pushUsage}`, "warning");
                 return;
             }
 
-            const payload: OverridePayload = {
-                appearance,
-                updatedAt: new Date().toISOString(),
-                source: os.hostname(),
-            };
+            if (config.overrideKey) signOverridePayload(payload, config.overrideKey);
+            const source = payload.source ?? os.hostname();
+            const filePath = path.join(getOverrideDir(config.overrideFile), overrideFileName(source));
+            await mkdir(path.dirname(filePath), { recursive: true });
+            await writeFile(filePath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
+            if (ctx.hasUI) {
+                const entry = toOverrideEntry(payload, "file", source, config.overrideMaxAgeMs);
+                ctx.ui.notify(`Override written: ${formatOverrideEntry(entry, Date.now())} → ${filePath}`, "info");
+            }
+            await tick(ctx, undefined, "push");
+        },
+    });
+
+    // -- /system-theme-pin command (pause auto-sync) -------------------------
+
+    pi.registerCommand("system-theme-pin", {
+        description: "Keep the current theme: /system-theme-pin [duration|session|off] (e.g. 30m, 2h)",
+        handler: async (args, ctx) => {
+            const value = args.trim().toLowerCase() || "session";
+            if (value === "off") {
+                const wasPinned = pin !== null;
+                pin = null;
+                // The theme kept under the pin isn't an outside change to react to.
+                lastAppliedTheme = ctx.hasUI ? (ctx.ui.theme.name ?? null) : null;
+                if (ctx.hasUI) ctx.ui.notify(wasPinned ? "Theme pin cleared; auto-sync resumed." : "No theme pin active.", "info");
+                await tick(ctx, { allowOsc11: true, forceOsc11: true }, "unpin");
+                return;
+            }
 
-            await mkdir(path.dirname(config.overrideFile), { recursive: true });
-            await writeFile(config.overrideFile, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
-            if (ctx.hasUI) ctx.ui.notify(`Override written: ${appearance}`, "info");
-            await tick(ctx);
+            const durationMs = value === "session" ? null : parseDurationMs(value);
+            if (value !== "session" && durationMs === null) {
+                if (ctx.hasUI) ctx.ui.notify("Usage: /system-theme-pin [duration|session|off] (e.g. 90s, 30m, 1h30m)", "warning");
+                return;
+            }
+            pin = {
+                until: durationMs === null ? null : Date.now() + durationMs,
+                reason: "manual",
+                theme: ctx.hasUI ? (ctx.ui.theme.name ?? null) : null,
+            };
+            if (ctx.hasUI) ctx.ui.notify(`Theme pinned ${formatPin(pin)}.`, "info");
         },
     });
 
@@ -797,22 +4809,82 @@ export default function systemThemeBridge(pi: ExtensionAPI): void {
     function resetOsc11State(): void {
         osc11State.lastCheckedAt = 0;
         osc11State.lastAppearance = null;
+        osc11State.lastBand = null;
         osc11State.failures = 0;
         osc11State.disabledUntil = 0;
+        osc11State.tmuxMode = "plain";
+    }
+
+    async function reloadConfig(ctx: ExtensionContext): Promise<void> {
+        const themes = canManageThemes(ctx) ? ctx.ui.getAllThemes().map((theme) => theme.name) : null;
+        loadedConfig = await loadConfig(ctx.cwd, themes);
+        config = loadedConfig.config;
+        terminalProfile = resolveTerminalProfile(terminalIdentity, config.terminalProfiles);
+        if (config.overrideKey) await loadReplayMarks(overrideAuth, getReplayMarksFile(config.overrideFile));
+    }
+
+    function reportUnknownThemes(ctx: ExtensionContext): void {
+        const fresh = (loadedConfig?.unknownThemes ?? []).filter((entry) => !reportedUnknownThemes.has(entry));
+        if (fresh.length === 0 || !ctx.hasUI) return;
+        for (const entry of fresh) reportedUnknownThemes.add(entry);
+        ctx.ui.notify(`pi-theme-sync: unknown theme ${fresh.join(", ")}. Pick an installed one with /system-theme.`, "warning");
     }
 
     async function applyOnSessionEnter(ctx: ExtensionContext): Promise<void> {
-        config = await loadConfig();
+        // Re-resolved on every enter: a resumed session may live in another project.
+        await reloadConfig(ctx);
+        reportUnknownThemes(ctx);
         resetOsc11State();
+        tmuxClient = await readTmuxClient();
+        remoteVerdict = await detectRemoteSession(config.remoteSession, tmuxClient);
 
         if (!shouldAutoSync(ctx)) return;
 
+        // Environment hints are free: use them for the first frame, before any
+        // terminal handshake or probe.
+        await tick(ctx, { hintsOnly: true }, "session-hints");
+
+        // Before the mode 2031 handshake, which the profile may skip. Inside
+        // tmux this only reads tmux's view of the client, so it's redone.
+        if (!terminalIdentity || tmuxClient) terminalIdentity = await identifyTerminal(ctx, tmuxClient);
+        terminalProfile = resolveTerminalProfile(terminalIdentity, config.terminalProfiles);
+
+        if (!osc11Helper && isOsc11HelperEnabled()) osc11Helper = createOsc11Helper();
+
+        // Finish the mode 2031 handshake before the first OSC 11 probe: the
+        // probe helper reads /dev/tty raw and would swallow the DECRQM reply.
+        await restartColorScheme(ctx);
+        await ensureProbeCoordinator(ctx);
+
         // Force immediate theme reconciliation when entering a session
         // (especially important after /resume from a differently-themed session).
-        await tick(ctx, { allowOsc11: true, forceOsc11: true });
+        await tick(ctx, { allowOsc11: true, forceOsc11: true }, "session-start");
         restartPolling(ctx);
+        restartOverrideWatcher(ctx);
+        restartPortalWatch(ctx);
+        restartTmuxWatch(ctx);
+        restartActivityWatch(ctx);
+        await ensurePushListener(ctx);
     }
 
+    pi.on("agent_start", () => {
+        activity.agentBusy = true;
+        cancelProbe();
+    });
+
+    pi.on("agent_end", (_event, ctx) => {
+        activity.agentBusy = false;
+        if (!probeOwed || idleTimer) return;
+        idleTimer = setTimeout(() => {
+            idleTimer = null;
+            requestImmediateTick(ctx);
+        }, ACTIVITY_QUIET_MS);
+    });
+
+    pi.on("input", () => {
+        activity.lastInputAt = Date.now();
+    });
+
     pi.on("session_start", async (_event, ctx) => {
         await applyOnSessionEnter(ctx);
     });
@@ -822,9 +4894,31 @@ export default function systemThemeBridge(pi: ExtensionAPI): void {
     });
 
     pi.on("session_shutdown", () => {
-        if (intervalId) {
-            clearInterval(intervalId);
-            intervalId = null;
+        stopPolling();
+        if (scheduleTimer) {
+            clearTimeout(scheduleTimer);
+            scheduleTimer = null;
+        }
+        stopOverrideWatcher?.();
+        stopOverrideWatcher = null;
+        clearOverrideExpiryTimer();
+        pendingImmediateTick = false;
+        closePushListener();
+        listenerCtx = null;
+        stopColorScheme?.();
+        stopColorScheme = null;
+        osc11Helper?.stop();
+        osc11Helper = null;
+        void closeProbeCoordinator();
+        stopTmuxWatch?.();
+        stopTmuxWatch = null;
+        stopPortalWatch?.();
+        stopPortalWatch = null;
+        stopActivityWatch?.();
+        stopActivityWatch = null;
+        if (idleTimer) {
+            clearTimeout(idleTimer);
+            idleTimer = null;
         }
     });
 }